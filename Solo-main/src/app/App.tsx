@@ -1,37 +1,90 @@
 import { SpeedInsights } from "@vercel/speed-insights/react";
 import { createId } from "./utils/id";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, SetStateAction } from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { Toaster, toast } from "sonner";
 import {
+  ActiveFocusTimer,
   AppState,
+  FocusProfile,
+  FocusTarget,
   User,
   Quest,
   Habit,
   UserClass,
   Badge,
-  FocusSession,
 } from "./types";
 import {
   saveToStorage,
   loadFromStorage,
-  loadFromFirebase,
-  saveToFirebase,
+  loadFromBackend,
+  subscribeToStorage,
+  getGuestUserId,
+  selectLocalBackend,
+  selectStorageBackend,
 } from "./utils/storage";
-import { auth } from "./firebase";
+import { auth, isFirebaseConfigured } from "./firebase";
 import {
   createUserWithEmailAndPassword,
   signInWithEmailAndPassword,
   updateProfile,
 } from "firebase/auth";
+import { getXPForDifficulty } from "./utils/xp";
+import { withRecalculatedStreaks } from "./utils/streaks";
 import {
-  calculateXPForLevel,
-  calculateLevel,
-  getXPForDifficulty,
-} from "./utils/xp";
+  countFocusTotals,
+  getFocusHourGrid,
+  getFocusMinutesByQuest,
+  getFocusTotals,
+  getPeakFocusWindow,
+} from "./utils/focus";
+import {
+  getAbandonedMinutes,
+  getFocusXP,
+  getRemainingSeconds,
+  getTimerEndsAt,
+  isBreakPhase,
+  isPhaseOver,
+  isTimerPaused,
+  logInterruption,
+  pauseFocusTimer,
+  resumeFocusTimer,
+  startFocusTimer,
+} from "./utils/focusTimer";
+import { getActiveFocusProfile, getFocusProfiles, getNextBreak } from "./utils/focusProfiles";
+import { useNow } from "./hooks/useNow";
+import { useFocusSoundscape } from "./hooks/useFocusSoundscape";
+import { useStorageSync } from "./hooks/useStorageSync";
+import { DEFAULT_SOUND_VOLUME } from "./utils/soundscape";
+import { mergeIncoming, rebaseEdit, stampChanges } from "./utils/merge";
+import { LoadReport } from "./utils/schema";
+import {
+  applyBackup,
+  createBackup,
+  getBackupCounts,
+  getBackupFileName,
+  parseBackup,
+  ParsedBackup,
+  RestoreMode,
+  serializeBackup,
+} from "./utils/backup";
+import { downloadFile } from "./utils/download";
+import { createQuestCalendar, countCalendarEvents, getIcsFileName, IcsImport, importQuestsFromIcs } from "./utils/ics";
+import {
+  applyGameAction,
+  findEvent,
+  GameEvent,
+  getCheckInWindowStart,
+} from "./utils/gameEngine";
+import {
+  getBadgeProgress,
+  getBadgeProgressMap,
+  getClosestBadges,
+  withBadgeCatalog,
+} from "./utils/badges";
 import { getRandomQuestTemplate } from "./utils/ai";
 import { createMockUser, mockQuests, mockHabits, mockBadges } from "./utils/mockData";
-import { toLocalDateKey, isoToLocalDateKey, makeDueDateISO } from "./utils/date";
+import { getDayKey, isoToDayKey, makeDueDateISO } from "./utils/date";
 
 // Pages
 import { LandingPage } from "./pages/LandingPage";
@@ -41,6 +94,7 @@ import { Dashboard } from "./pages/Dashboard";
 import { QuestsPage } from "./pages/QuestsPage";
 import { HabitsPage } from "./pages/HabitsPage";
 import { FocusSessionPage } from "./pages/FocusSessionPage";
+import { FocusHistoryPage } from "./pages/FocusHistoryPage";
 import { RewardsPage } from "./pages/RewardsPage";
 import { StatsPage } from "./pages/StatsPage";
 import { SettingsPage } from "./pages/SettingsPage";
@@ -52,10 +106,21 @@ import { MobileNav } from "./components/MobileNav";
 import { QuestDetailDialog } from "./components/QuestDetailDialog";
 import { QuestCreateDialog } from "./components/QuestCreateDialog";
 import { CommandPalette } from "./components/CommandPalette";
+import { SyncStatusIndicator } from "./components/SyncStatusIndicator";
 import { BadgeDetailDialog } from "./components/BadgeDetailDialog";
+import { HabitCreateDialog } from "./components/HabitCreateDialog";
+import { HabitDetailDialog } from "./components/HabitDetailDialog";
+import { ImportBackupDialog } from "./components/ImportBackupDialog";
+import { CsvExportDialog } from "./components/CsvExportDialog";
+import { ImportCalendarDialog } from "./components/ImportCalendarDialog";
+
+// Storage backends are picked once at startup; guest accounts always stay
+// on this device.
+const primaryBackend = selectStorageBackend();
+const guestBackend = primaryBackend.kind === "firestore" ? selectLocalBackend() : primaryBackend;
 
 export default function App() {
-  const [appState, setAppState] = useState<AppState>({
+  const [appState, setStoredAppState] = useState<AppState>({
     user: null,
     quests: [],
     habits: [],
@@ -65,6 +130,12 @@ export default function App() {
     isOnboarded: false,
   });
 
+  // Local edits go through stampChanges so changed entities carry sync
+  // metadata; remote loads are merged in with setStoredAppState directly.
+  const setAppState = (update: SetStateAction<AppState>) => {
+    setStoredAppState((prev) => stampChanges(prev, typeof update === "function" ? update(prev) : update));
+  };
+
   const [selectedQuest, setSelectedQuest] = useState<Quest | null>(null);
   const [questDialogOpen, setQuestDialogOpen] = useState(false);
 
@@ -73,6 +144,7 @@ export default function App() {
     uid: string;
     name: string;
     email: string;
+    guest?: boolean;
   } | null>(null);
 
   // Controls visibility of the new quest creation dialog
@@ -83,6 +155,11 @@ export default function App() {
     undefined
   );
 
+  // Habit dialogs
+  const [selectedHabit, setSelectedHabit] = useState<Habit | null>(null);
+  const [habitDialogOpen, setHabitDialogOpen] = useState(false);
+  const [newHabitDialogOpen, setNewHabitDialogOpen] = useState(false);
+
   // Command palette state (Ctrl/Cmd + K)
   const [commandOpen, setCommandOpen] = useState(false);
 
@@ -93,11 +170,32 @@ export default function App() {
   // Mobile drawer menu (hamburger)
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
+  const [csvExportOpen, setCsvExportOpen] = useState(false);
+
+  // Backup file picked in Settings, waiting for the user to confirm the restore.
+  const [pendingBackup, setPendingBackup] = useState<ParsedBackup | null>(null);
+
+  // Quests read from an .ics file, waiting for the user to confirm the import.
+  const [pendingIcsImport, setPendingIcsImport] = useState<IcsImport | null>(null);
+
+  // Quest to offer completing after a focus session on it ends.
+  const [focusPromptQuestId, setFocusPromptQuestId] = useState<string | undefined>(undefined);
+
+  // Let the user know when saved data had to be repaired on load; the
+  // details are logged by utils/schema.ts.
+  const announceRepairs = (report: LoadReport) => {
+    if (report.repairs.length === 0) return;
+    toast.warning("Some saved data needed repair", {
+      description: `${report.repairs.length} problem(s) were fixed. See the console for details.`,
+    });
+  };
+
   // Load from storage on mount
   useEffect(() => {
-    const savedState = loadFromStorage();
-    if (savedState) {
-      setAppState(savedState);
+    const saved = loadFromStorage();
+    if (saved) {
+      setAppState(withBadgeCatalog(saved.state));
+      announceRepairs(saved.report);
     }
   }, []);
 
@@ -113,48 +211,58 @@ export default function App() {
     return () => window.removeEventListener("keydown", onKeyDown);
   }, []);
 
-  // Load persisted state from Firebase when a user logs in.
+  // State saved by another tab or device is merged in, not swapped in, so
+  // unsaved local edits survive. Changes for a different account are ignored.
+  const mergeIncomingState = (incoming: AppState) => {
+    setStoredAppState((prev) =>
+      prev.user && incoming.user?.id === prev.user.id ? mergeIncoming(prev, withBadgeCatalog(incoming)) : prev
+    );
+  };
+
+  // Debounced, diff-based sync to the storage backend with a live listener;
+  // see hooks/useStorageSync.ts.
+  const backend = appState.user?.guest ? guestBackend : primaryBackend;
+  const storageSync = useStorageSync(appState, backend, mergeIncomingState);
+
+  // Other tabs on this device announce their saves through localStorage.
+  useEffect(() => subscribeToStorage(mergeIncomingState), []);
+
+  // Only recent focus history is loaded from storage. Backups and exports
+  // need all of it: this pages in the rest and returns the state with it.
+  const withFullHistory = async (): Promise<AppState> => {
+    const remote = await storageSync.loadFullHistory();
+    return remote && remote.user?.id === appState.user?.id
+      ? mergeIncoming(appState, withBadgeCatalog(remote))
+      : appState;
+  };
+
+  // Accounts from before focus totals were stored count them once, from the
+  // full history.
+  const historyKnown = storageSync.history !== null;
+  const needsFocusTotals = !!appState.user && !appState.user.focusTotals;
   useEffect(() => {
-    async function fetchRemoteState() {
-      if (appState.user) {
-        const remoteState = await loadFromFirebase(appState.user.id);
-        if (remoteState) {
-          setAppState(remoteState);
-        }
-      }
-    }
-    fetchRemoteState();
+    if (!historyKnown || !needsFocusTotals) return;
+    storageSync
+      .loadFullHistory()
+      .then(() =>
+        setAppState((prev) =>
+          prev.user && !prev.user.focusTotals
+            ? { ...prev, user: { ...prev.user, focusTotals: countFocusTotals(prev.focusSessions) } }
+            : prev
+        )
+      )
+      .catch((error) => console.error("Failed to count focus totals:", error));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [appState.user]);
+  }, [historyKnown, needsFocusTotals]);
 
-  // Daily rollover: reset daily quests when the local date changes.
+  // Daily rollover: reset daily quests when the user's day changes. Checked
+  // every minute so a day boundary passing while the app is open is caught.
   useEffect(() => {
     if (!appState.user) return;
-
-    const todayKey = toLocalDateKey(new Date());
-    setAppState((prev) => {
-      if (!prev.user) return prev;
-      if (prev.lastDailyReset === todayKey) return prev;
-
-      const now = new Date();
-      const updatedQuests = prev.quests.map((q) => {
-        if (!q.isDaily) return q;
-
-        return {
-          ...q,
-          status: "pending" as const,
-          completedAt: undefined,
-          dueDate: makeDueDateISO(now),
-          subtasks: q.subtasks.map((st) => ({ ...st, completed: false })),
-        };
-      });
-
-      return {
-        ...prev,
-        quests: updatedQuests,
-        lastDailyReset: todayKey,
-      };
-    });
+    const rollOver = () => setAppState((prev) => applyGameAction(prev, { type: "dayRolledOver" }).state);
+    rollOver();
+    const interval = window.setInterval(rollOver, 60 * 1000);
+    return () => window.clearInterval(interval);
   }, [appState.user]);
 
   // Save to storage whenever state changes
@@ -164,13 +272,6 @@ export default function App() {
     }
   }, [appState]);
 
-  // Persist to Firebase whenever state changes and user is present
-  useEffect(() => {
-    if (appState.user) {
-      saveToFirebase(appState.user.id, appState);
-    }
-  }, [appState]);
-
   // Auth & Onboarding Handlers
   const handleAuth = async (
     name: string,
@@ -189,27 +290,7 @@ export default function App() {
 
       const uid = cred.user.uid;
       const resolvedName = name || cred.user.displayName || email.split("@")[0];
-
-      const remoteState = await loadFromFirebase(uid);
-      if (remoteState && remoteState.user) {
-        setPendingAuth(null);
-        setAppState({
-          ...remoteState,
-          currentPage: "dashboard",
-          isOnboarded: true,
-        });
-
-        toast.success(`Welcome back, ${remoteState.user.name}!`, {
-          description: "Your data has been loaded from Firebase.",
-        });
-        return;
-      }
-
-      setPendingAuth({ uid, name: resolvedName, email });
-      setAppState((prev) => ({
-        ...prev,
-        currentPage: "onboarding",
-      }));
+      await openAccount({ uid, name: resolvedName, email });
     } catch (err: any) {
       const code = err?.code as string | undefined;
       const message =
@@ -228,6 +309,41 @@ export default function App() {
     }
   };
 
+  // Guests skip sign-in; their data is kept in the local backend under a
+  // per-device id.
+  const handleContinueAsGuest = () => {
+    void openAccount({ uid: getGuestUserId(), name: "Guest", email: "", guest: true });
+  };
+
+  // Load an existing account's state, or start onboarding when there is none.
+  const openAccount = async (account: NonNullable<typeof pendingAuth>) => {
+    const accountBackend = account.guest ? guestBackend : primaryBackend;
+    const remote = await loadFromBackend(accountBackend, account.uid);
+    if (remote?.state.user) {
+      setPendingAuth(null);
+      setAppState({
+        ...withBadgeCatalog(remote.state),
+        currentPage: "dashboard",
+        isOnboarded: true,
+      });
+
+      toast.success(`Welcome back, ${remote.state.user.name}!`, {
+        description:
+          accountBackend.kind === "firestore"
+            ? "Your data has been loaded from Firebase."
+            : "Your data has been loaded from this device.",
+      });
+      announceRepairs(remote.report);
+      return;
+    }
+
+    setPendingAuth(account);
+    setAppState((prev) => ({
+      ...prev,
+      currentPage: "onboarding",
+    }));
+  };
+
   const handleOnboardingComplete = (userClass: UserClass, goal: string, schedule: string[]) => {
     const newUser = createMockUser(
       pendingAuth?.name || "Hero",
@@ -237,6 +353,9 @@ export default function App() {
     if (pendingAuth?.uid) {
       newUser.id = pendingAuth.uid;
     }
+    if (pendingAuth?.guest) {
+      newUser.guest = true;
+    }
     newUser.dailyGoal = goal;
     newUser.weeklySchedule = schedule;
 
@@ -266,34 +385,12 @@ export default function App() {
     setBadgeDialogOpen(true);
   };
 
-  const checkAndUnlockBadges = (state: AppState): Badge[] => {
-    return state.badges.map((badge) => {
-      if (!badge.isLocked) return badge;
-      if (!state.user) return badge;
-
-      const completedQuestsCount = state.quests.filter((q) => q.status === "completed").length;
-      const completedFocusSessions = state.focusSessions.filter((fs) => fs.completed).length;
-
-      let unlock = false;
-      const requirement = badge.requirement?.toLowerCase() || "";
-
-      if (requirement.includes("complete 1 quest") && completedQuestsCount >= 1) unlock = true;
-      else if (requirement.includes("7-day streak") && state.habits.some((h) => h.longestStreak >= 7))
-        unlock = true;
-      else if (requirement.includes("50 quests") && completedQuestsCount >= 50) unlock = true;
-      else if (requirement.includes("100 focus sessions") && completedFocusSessions >= 100)
-        unlock = true;
-      else if (requirement.includes("level 50") && state.user.level >= 50) unlock = true;
-
-      if (unlock) {
-        return {
-          ...badge,
-          isLocked: false,
-          unlockedAt: new Date().toISOString(),
-        };
-      }
-      return badge;
-    });
+  // Surface badges unlocked by a game action.
+  const announceBadges = (events: GameEvent[]) => {
+    for (const event of events) {
+      if (event.type !== "badgeUnlocked") continue;
+      toast.success(`🏆 Badge unlocked: ${event.badge.name}`, { description: event.badge.description });
+    }
   };
 
   // Quest Handlers
@@ -330,42 +427,37 @@ export default function App() {
     setNewQuestDialogOpen(true);
   };
 
-  const handleCompleteQuest = (questId: string) => {
-    const quest = appState.quests.find((q) => q.id === questId);
-    if (!quest || !appState.user) return;
-
-    const updatedQuests = appState.quests.map((q) =>
-      q.id === questId ? { ...q, status: "completed" as const, completedAt: new Date().toISOString() } : q
-    );
-
-    const newTotalXP = appState.user.totalXP + quest.xpReward;
-    const newLevel = calculateLevel(newTotalXP);
-    const leveledUp = newLevel > appState.user.level;
-
-    let xpForCurrentLevel = 0;
-    for (let i = 1; i < newLevel; i++) xpForCurrentLevel += calculateXPForLevel(i);
-    const currentXP = newTotalXP - xpForCurrentLevel;
-    const xpToNextLevel = calculateXPForLevel(newLevel);
-
-    const updatedUser: User = {
-      ...appState.user,
-      xp: currentXP,
-      xpToNextLevel,
-      level: newLevel,
-      totalXP: newTotalXP,
-    };
-
-    const newState: AppState = { ...appState, user: updatedUser, quests: updatedQuests };
-    const updatedBadges = checkAndUnlockBadges(newState);
-    setAppState({ ...newState, badges: updatedBadges });
+  const handleToggleSubtask = (questId: string, subtaskId: string) => {
+    setAppState((prev) => ({
+      ...prev,
+      quests: prev.quests.map((q) =>
+        q.id === questId
+          ? {
+              ...q,
+              subtasks: q.subtasks.map((st) => (st.id === subtaskId ? { ...st, completed: !st.completed } : st)),
+            }
+          : q
+      ),
+    }));
+  };
 
-    if (leveledUp) {
-      toast.success(`🎉 Level Up! You're now Level ${newLevel}!`, { description: `You earned ${quest.xpReward} XP` });
+  const handleCompleteQuest = (questId: string) => {
+    const { state, events } = applyGameAction(appState, { type: "questCompleted", questId });
+    const completed = findEvent(events, "questCompleted");
+    if (!completed || !state.user) return;
+    setAppState(state);
+
+    const levelUp = findEvent(events, "levelUp");
+    if (levelUp) {
+      toast.success(`🎉 Level Up! You're now Level ${levelUp.to}!`, {
+        description: `You earned ${completed.xpReward} XP`,
+      });
     } else {
-      toast.success(`Quest Complete! +${quest.xpReward} XP`, {
-        description: `${xpToNextLevel - currentXP} XP until Level ${newLevel + 1}`,
+      toast.success(`Quest Complete! +${completed.xpReward} XP`, {
+        description: `${state.user.xpToNextLevel - state.user.xp} XP until Level ${state.user.level + 1}`,
       });
     }
+    announceBadges(events);
   };
 
   const handleOpenQuestDetail = (quest: Quest) => {
@@ -376,126 +468,281 @@ export default function App() {
   const handleCloseQuestDetail = () => setQuestDialogOpen(false);
 
   // Habit Handlers
-  const handleAddHabit = () => {
-    const newHabit: Habit = {
-      id: createId("habit"),
-      title: "New Habit",
-      frequency: "daily",
-      currentStreak: 0,
-      longestStreak: 0,
-      xpPerCompletion: 10,
-      completedDates: [],
-      createdAt: new Date().toISOString(),
-      color: "#8b5cf6",
-    };
-    setAppState((prev) => ({ ...prev, habits: [...prev.habits, newHabit] }));
+  const handleCreateHabit = (habit: Habit) => {
+    setAppState((prev) => ({ ...prev, habits: [...prev.habits, habit] }));
     toast.success("Habit created!");
   };
 
-  const handleToggleHabit = (habitId: string) => {
-    const todayStr = new Date().toISOString().split("T")[0];
-    const habit = appState.habits.find((h) => h.id === habitId);
-    if (!habit || !appState.user) return;
+  const handleOpenHabitDetail = (habit: Habit) => {
+    setSelectedHabit(habit);
+    setHabitDialogOpen(true);
+  };
 
-    const isCompletedToday = habit.completedDates.some((date) => date.startsWith(todayStr));
+  const handleSaveHabit = (updatedHabit: Habit) => {
+    setAppState((prev) => ({
+      ...prev,
+      habits: prev.habits.map((h) =>
+        // Schedule edits change which days count, so streaks are re-derived.
+        h.id === updatedHabit.id ? withRecalculatedStreaks({ ...h, ...updatedHabit }, new Date(), prev.user) : h
+      ),
+    }));
+    toast.success("Habit updated!");
+  };
 
-    if (isCompletedToday) {
-      const updatedHabits = appState.habits.map((h) =>
-        h.id === habitId
-          ? {
-              ...h,
-              completedDates: h.completedDates.filter((d) => !d.startsWith(todayStr)),
-              currentStreak: Math.max(0, h.currentStreak - 1),
-            }
-          : h
-      );
-      const newState: AppState = { ...appState, habits: updatedHabits };
-      const updatedBadges = checkAndUnlockBadges(newState);
-      setAppState({ ...newState, badges: updatedBadges });
-      toast.info("Habit unmarked");
-    } else {
-      const newStreak = habit.currentStreak + 1;
-      const longestStreak = Math.max(habit.longestStreak, newStreak);
+  const handleArchiveHabit = (habitId: string, archived: boolean) => {
+    setAppState((prev) => ({
+      ...prev,
+      habits: prev.habits.map((h) => (h.id === habitId ? { ...h, archived } : h)),
+    }));
+    toast.success(archived ? "Habit archived" : "Habit restored");
+  };
 
-      const updatedHabits = appState.habits.map((h) =>
-        h.id === habitId
-          ? {
-              ...h,
-              completedDates: [...h.completedDates, new Date().toISOString()],
-              currentStreak: newStreak,
-              longestStreak,
-            }
-          : h
-      );
-
-      const newTotalXP = appState.user.totalXP + habit.xpPerCompletion;
-      const newLevel = calculateLevel(newTotalXP);
-
-      let xpForCurrentLevel = 0;
-      for (let i = 1; i < newLevel; i++) xpForCurrentLevel += calculateXPForLevel(i);
-      const currentXP = newTotalXP - xpForCurrentLevel;
-      const xpToNextLevel = calculateXPForLevel(newLevel);
-
-      const updatedUser: User = {
-        ...appState.user,
-        xp: currentXP,
-        xpToNextLevel,
-        level: newLevel,
-        totalXP: newTotalXP,
-      };
+  const handleDeleteHabit = (habitId: string) => {
+    setAppState((prev) => ({ ...prev, habits: prev.habits.filter((h) => h.id !== habitId) }));
+    toast.success("Habit deleted");
+  };
 
-      const newState: AppState = { ...appState, user: updatedUser, habits: updatedHabits };
-      const updatedBadges = checkAndUnlockBadges(newState);
-      setAppState({ ...newState, badges: updatedBadges });
+  const handleToggleHabit = (habitId: string) => {
+    const { state, events } = applyGameAction(appState, { type: "habitToggled", habitId });
+    if (state === appState) return;
+    setAppState(state);
+
+    const completed = findEvent(events, "habitCompleted");
+    if (!completed) {
+      const unmarked = findEvent(events, "habitUnmarked");
+      const levelDown = findEvent(events, "levelDown");
+      toast.info("Habit unmarked", {
+        description: levelDown
+          ? `-${unmarked?.xpRefund ?? 0} XP · back to Level ${levelDown.to}`
+          : `-${unmarked?.xpRefund ?? 0} XP`,
+      });
+      return;
+    }
+
+    toast.success(`Habit complete! +${completed.xpReward} XP`, {
+      description:
+        completed.streak > 1 ? `${completed.streak} ${completed.unit} streak! 🔥` : undefined,
+    });
+    announceBadges(events);
+  };
 
-      toast.success(`Habit complete! +${habit.xpPerCompletion} XP`, {
-        description: newStreak > 1 ? `${newStreak} day streak! 🔥` : undefined,
+  // Backfill or remove a completion on a specific day (heatmap clicks).
+  const handleToggleHabitDay = (habitId: string, dateKey: string) => {
+    const { state, events } = applyGameAction(appState, { type: "habitDayToggled", habitId, dateKey });
+    const rejected = findEvent(events, "checkInRejected");
+    if (rejected) {
+      toast.error("Check-in window closed", {
+        description: `You can only change the last ${rejected.graceDays} days. Adjust this in Settings.`,
       });
+      return;
     }
+    if (state === appState) return;
+    setAppState(state);
+
+    const levelDown = findEvent(events, "levelDown");
+    const unmarked = findEvent(events, "habitUnmarked");
+    if (unmarked) {
+      toast.info(`Completion removed for ${dateKey}`, {
+        description: levelDown
+          ? `-${unmarked.xpRefund} XP · back to Level ${levelDown.to}`
+          : `-${unmarked.xpRefund} XP`,
+      });
+      return;
+    }
+
+    const completed = findEvent(events, "habitCompleted");
+    if (completed) {
+      toast.success(`Logged ${dateKey}! +${completed.xpReward} XP`, {
+        description: `${completed.streak} ${completed.unit} streak`,
+      });
+    }
+    announceBadges(events);
   };
 
   // Focus Session Handler
-  const handleFocusComplete = (duration: number, xpEarned: number) => {
-    if (!appState.user) return;
+  // Focus timer. The timer lives in AppState as timestamps so it keeps
+  // running across navigation and reloads; see utils/focusTimer.ts.
+  const updateFocusTimer = (update: (timer: ActiveFocusTimer) => ActiveFocusTimer | null) => {
+    setAppState((prev) => (prev.activeFocus ? { ...prev, activeFocus: update(prev.activeFocus) } : prev));
+  };
 
-    const newTotalXP = appState.user.totalXP + xpEarned;
-    const newLevel = calculateLevel(newTotalXP);
+  const soundscape = useFocusSoundscape(appState.activeFocus, getActiveFocusProfile(appState.user));
+  const playChime = (kind: "start" | "end", profile: FocusProfile) => {
+    if (profile.chimes !== false) soundscape.chime(kind, profile.volume ?? DEFAULT_SOUND_VOLUME);
+  };
 
-    let xpForCurrentLevel = 0;
-    for (let i = 1; i < newLevel; i++) xpForCurrentLevel += calculateXPForLevel(i);
-    const currentXP = newTotalXP - xpForCurrentLevel;
-    const xpToNextLevel = calculateXPForLevel(newLevel);
+  const handleStartFocus = (target: FocusTarget) => {
+    const profile = getActiveFocusProfile(appState.user);
+    // Clicking Start is the user gesture browsers require before audio plays.
+    soundscape.unlock();
+    playChime("start", profile);
+    setFocusPromptQuestId(undefined);
+    setAppState((prev) => ({
+      ...prev,
+      activeFocus: startFocusTimer("focus", profile.focusMinutes, target, new Date()),
+    }));
+  };
 
-    const updatedUser: User = {
-      ...appState.user,
-      xp: currentXP,
-      xpToNextLevel,
-      level: newLevel,
-      totalXP: newTotalXP,
-    };
+  const handlePauseFocus = () => updateFocusTimer((timer) => pauseFocusTimer(timer, new Date()));
+  const handleResumeFocus = () => {
+    soundscape.unlock();
+    updateFocusTimer((timer) => resumeFocusTimer(timer, new Date()));
+  };
+  // Resetting a focus block that already ran keeps it as an abandoned
+  // session so the attempt still counts in the focus analytics.
+  const handleResetFocus = () => {
+    const timer = appState.activeFocus;
+    const now = new Date();
+    const minutes = timer ? getAbandonedMinutes(timer, now) : null;
+    if (!timer || minutes === null) {
+      setAppState((prev) => ({ ...prev, activeFocus: null, focusCycleCount: 0 }));
+      return;
+    }
 
-    const newFocusSession: FocusSession = {
-      id: createId("focus"),
-      duration,
-      startTime: new Date(Date.now() - duration * 60 * 1000).toISOString(),
-      endTime: new Date().toISOString(),
-      xpEarned,
-      completed: true,
-    };
+    const { state } = applyGameAction(
+      { ...appState, activeFocus: null, focusCycleCount: 0 },
+      {
+        type: "focusAbandoned",
+        duration: minutes,
+        interruptions: timer.interruptions,
+        questId: timer.questId,
+        subtaskId: timer.subtaskId,
+      },
+      now
+    );
+    setAppState(state);
+    setFocusPromptQuestId(undefined);
+    toast.info("Session abandoned", {
+      description: `${minutes} minute${minutes === 1 ? "" : "s"} logged, no XP earned`,
+    });
+  };
 
-    const newState: AppState = {
-      ...appState,
-      user: updatedUser,
-      focusSessions: [...appState.focusSessions, newFocusSession],
-    };
-    const updatedBadges = checkAndUnlockBadges(newState);
-    setAppState({ ...newState, badges: updatedBadges });
+  const handleLogDistraction = (reason: string, note: string) => {
+    updateFocusTimer((timer) => (timer.phase === "focus" ? logInterruption(timer, reason, note, new Date()) : timer));
+    toast.info("Distraction logged", { description: "Take a breath and get back to it" });
+  };
+
+  const handleSelectFocusProfile = (profileId: string) => {
+    setAppState((prev) => (prev.user ? { ...prev, user: { ...prev.user, activeFocusProfileId: profileId } } : prev));
+  };
+
+  const handleSaveFocusProfiles = (profiles: FocusProfile[]) => {
+    setAppState((prev) => {
+      if (!prev.user) return prev;
+      const activeId = prev.user.activeFocusProfileId;
+      return {
+        ...prev,
+        user: {
+          ...prev.user,
+          focusProfiles: profiles,
+          activeFocusProfileId: profiles.some((p) => p.id === activeId) ? activeId : profiles[0]?.id,
+        },
+      };
+    });
+    toast.success("Focus profiles saved");
+  };
+
+  // Quick edits from the focus page (soundscape, volume) save silently.
+  const handleUpdateFocusProfile = (profile: FocusProfile) => {
+    setAppState((prev) => {
+      if (!prev.user) return prev;
+      const profiles = getFocusProfiles(prev.user).map((p) => (p.id === profile.id ? profile : p));
+      return { ...prev, user: { ...prev.user, focusProfiles: profiles } };
+    });
+  };
+
+  // Picking a profile from the command palette starts it right away unless
+  // a session is already running.
+  const handleStartFocusProfile = (profileId: string) => {
+    handleSelectFocusProfile(profileId);
+    handleNavigate("focus");
+    if (appState.activeFocus) return;
+    const profile = getFocusProfiles(appState.user).find((p) => p.id === profileId);
+    if (!profile) return;
+    soundscape.unlock();
+    playChime("start", profile);
+    setFocusPromptQuestId(undefined);
+    setAppState((prev) => ({
+      ...prev,
+      activeFocus: startFocusTimer("focus", profile.focusMinutes, {}, new Date()),
+      focusCycleCount: 0,
+    }));
+  };
+
+  const handleFocusPhaseEnd = (timer: ActiveFocusTimer, now: Date) => {
+    // Date the session by when it actually ended, which may be long ago if
+    // the app was closed while the timer ran out.
+    const endedAt = getTimerEndsAt(timer, now);
+    const profile = getActiveFocusProfile(appState.user);
+    const target = { questId: timer.questId, subtaskId: timer.subtaskId };
+
+    if (isBreakPhase(timer.phase)) {
+      // A focus block that would already be over by now was never sat
+      // through, so the chain stops instead of crediting it.
+      const startFocus = profile.autoStartFocus && !isPhaseOver(endedAt, profile.focusMinutes, now);
+      if (startFocus) playChime("start", profile);
+      setAppState((prev) => ({
+        ...prev,
+        activeFocus: startFocus ? startFocusTimer("focus", profile.focusMinutes, target, endedAt) : null,
+      }));
+      toast.info("Break over", {
+        description: startFocus ? "Next focus block started" : "Ready for another focus session?",
+      });
+      return;
+    }
+
+    const completedInCycle = (appState.focusCycleCount ?? 0) + 1;
+    const nextBreak = getNextBreak(profile, completedInCycle);
+    const xpEarned = getFocusXP(timer.duration);
+    // Breaks start from the moment focus ended, or wait for the user. A
+    // break that would already be over ends the chain.
+    const breakOver = profile.autoStartBreaks && isPhaseOver(endedAt, nextBreak.minutes, now);
+    const { state, events } = applyGameAction(
+      {
+        ...appState,
+        activeFocus: breakOver
+          ? null
+          : startFocusTimer(nextBreak.phase, nextBreak.minutes, target, endedAt, profile.autoStartBreaks),
+        focusCycleCount: nextBreak.phase === "longBreak" ? 0 : completedInCycle,
+      },
+      {
+        type: "focusFinished",
+        duration: timer.duration,
+        xpEarned,
+        interruptions: timer.interruptions,
+        questId: timer.questId,
+        subtaskId: timer.subtaskId,
+      },
+      endedAt
+    );
+    setAppState(state);
+    setFocusPromptQuestId(timer.questId);
+    playChime("end", profile);
 
+    const quest = state.quests.find((q) => q.id === timer.questId);
     toast.success(`Focus session complete! +${xpEarned} XP`, {
-      description: `You focused for ${duration} minutes`,
+      description: quest
+        ? `You focused on "${quest.title}" for ${timer.duration} minutes`
+        : `You focused for ${timer.duration} minutes`,
     });
+    announceBadges(events);
   };
 
+  // Finish the running phase once its wall-clock end has passed. The ref
+  // makes sure a phase is only finished once, even if effects run twice.
+  const focusRunning = !!appState.activeFocus && !isTimerPaused(appState.activeFocus);
+  const focusNow = useNow(focusRunning);
+  const finishedFocusRef = useRef<string | null>(null);
+  useEffect(() => {
+    const timer = appState.activeFocus;
+    if (!timer || isTimerPaused(timer) || getRemainingSeconds(timer, focusNow) > 0) return;
+    const timerKey = `${timer.phase}:${timer.startedAt}`;
+    if (finishedFocusRef.current === timerKey) return;
+    finishedFocusRef.current = timerKey;
+    handleFocusPhaseEnd(timer, focusNow);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusNow, appState.activeFocus]);
+
   // Settings Handlers
   const handleLogout = () => {
     setAppState({
@@ -516,6 +763,136 @@ export default function App() {
     toast.success("Profile updated!");
   };
 
+  const handleUpdateSettings = (settings: Partial<User>) => {
+    if (!appState.user) return;
+    setAppState((prev) => {
+      if (!prev.user) return prev;
+      const user = { ...prev.user, ...settings };
+      // A new timezone or day start moves completions between days.
+      const habits = prev.habits.map((h) => withRecalculatedStreaks(h, new Date(), user));
+      return { ...prev, user, habits };
+    });
+    toast.success("Settings saved");
+  };
+
+  const handleExportData = async () => {
+    let state: AppState;
+    try {
+      state = await withFullHistory();
+    } catch (error) {
+      toast.error("Could not load your full focus history", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    const now = new Date();
+    downloadFile(getBackupFileName(now), serializeBackup(createBackup(state, now)), "application/json");
+    toast.success("Backup downloaded");
+  };
+
+  const handleImportData = async (file: File) => {
+    try {
+      setPendingBackup(parseBackup(await file.text()));
+    } catch (error) {
+      toast.error("Could not read backup", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleRestoreBackup = async (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    const backup = pendingBackup.state;
+    // Sessions not loaded yet would otherwise survive a replace, or be left
+    // out of the recount after a merge.
+    try {
+      await storageSync.loadFullHistory();
+    } catch (error) {
+      toast.error("Could not load your full focus history", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    setAppState((prev) => {
+      const next = applyBackup(prev, backup, mode);
+      return next.user
+        ? { ...next, user: { ...next.user, focusTotals: countFocusTotals(next.focusSessions) } }
+        : next;
+    });
+    setPendingBackup(null);
+    toast.success(mode === "replace" ? "Backup restored" : "Backup merged");
+  };
+
+  const handleExportIcs = (includeHabits: boolean) => {
+    const habits = includeHabits ? appState.habits : [];
+    if (countCalendarEvents(appState.quests, habits) === 0) {
+      toast.info("Nothing to export", { description: "Only pending quests with a due date are exported." });
+      return;
+    }
+    const now = new Date();
+    downloadFile(
+      getIcsFileName(getDayKey(now, appState.user)),
+      createQuestCalendar(appState.quests, { habits, now, boundary: appState.user }),
+      "text/calendar;charset=utf-8"
+    );
+    toast.success("Calendar downloaded");
+  };
+
+  const handleImportIcs = async (file: File) => {
+    try {
+      setPendingIcsImport(importQuestsFromIcs(await file.text(), appState.quests, new Date(), appState.user));
+    } catch (error) {
+      toast.error("Could not read calendar", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleConfirmIcsImport = () => {
+    if (!pendingIcsImport) return;
+    const imported = pendingIcsImport.quests;
+    setAppState((prev) => ({ ...prev, quests: [...prev.quests, ...imported] }));
+    setPendingIcsImport(null);
+    toast.success(`Imported ${imported.length} quest${imported.length === 1 ? "" : "s"}`);
+  };
+
+  // Wipes progress but keeps the account, its settings and this device's page.
+  // The whole focus history is loaded first so every session gets deleted,
+  // and tombstoned, on the server too.
+  const handleClearData = async () => {
+    try {
+      await storageSync.loadFullHistory();
+    } catch (error) {
+      toast.error("Could not clear data", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    setAppState((prev) => {
+      if (!prev.user) return prev;
+      return {
+        ...prev,
+        user: {
+          ...prev.user,
+          level: 1,
+          xp: 0,
+          xpToNextLevel: 100,
+          totalXP: 0,
+          focusTotals: { sessions: 0, minutes: 0 },
+        },
+        quests: [],
+        habits: [],
+        focusSessions: [],
+        // The catalog ships with some badges unlocked for the demo data.
+        badges: mockBadges.map(({ unlockedAt: _unlockedAt, ...badge }) => ({ ...badge, isLocked: true })),
+        moodByDate: {},
+        activeFocus: null,
+        focusCycleCount: 0,
+      };
+    });
+    toast.success("All data cleared");
+  };
+
   // Render current page
   const renderPage = () => {
     switch (appState.currentPage) {
@@ -523,27 +900,35 @@ export default function App() {
         return <LandingPage onGetStarted={() => handleNavigate("auth")} />;
 
       case "auth":
-        return <AuthPage onAuth={handleAuth} />;
+        return (
+          <AuthPage onAuth={handleAuth} onGuest={handleContinueAsGuest} accountsAvailable={isFirebaseConfigured} />
+        );
 
       case "onboarding":
         return <OnboardingPage onComplete={handleOnboardingComplete} />;
 
       case "dashboard": {
         if (!appState.user) return null;
-        const todayKey = toLocalDateKey(new Date());
+        // Mood and "today" follow the user's day boundary, not the device calendar.
+        const todayKey = getDayKey(new Date(), appState.user);
         const todayQuestsAll = appState.quests.filter((q) => {
           if (!q.dueDate) return true;
-          const dueKey = isoToLocalDateKey(q.dueDate);
+          const dueKey = isoToDayKey(q.dueDate, appState.user);
           return dueKey ? dueKey === todayKey : true;
         });
         const todayQuests = todayQuestsAll.filter((q) => q.status !== "completed");
+        const [nextBadge] = getClosestBadges(appState.badges, getBadgeProgressMap(appState), 1);
+        const peakFocusWindow = getPeakFocusWindow(
+          getFocusHourGrid(appState.focusSessions, appState.user.timeZone),
+          appState.focusSessions.filter((s) => s.completed).length
+        );
 
         return (
           <Dashboard
             user={appState.user}
             todayQuestsAll={todayQuestsAll}
             todayQuests={todayQuests}
-            habits={appState.habits}
+            habits={appState.habits.filter((h) => !h.archived)}
             onAddQuest={() => handleOpenNewQuestDialog()}
             onAddQuestAI={handleAddQuestAI}
             onQuestClick={(quest) => handleOpenQuestDetail(quest)}
@@ -563,6 +948,10 @@ export default function App() {
             }}
             onHabitClick={(habit) => handleToggleHabit(habit.id)}
             onStartFocus={() => handleNavigate("focus")}
+            nextBadge={nextBadge}
+            onViewRewards={() => handleNavigate("rewards")}
+            focusMinutesByQuest={getFocusMinutesByQuest(appState.focusSessions)}
+            peakFocusWindow={peakFocusWindow}
           />
         );
       }
@@ -575,6 +964,7 @@ export default function App() {
             onAddQuestAI={handleAddQuestAI}
             onQuestClick={(quest) => handleOpenQuestDetail(quest)}
             onCompleteQuest={handleCompleteQuest}
+            focusMinutesByQuest={getFocusMinutesByQuest(appState.focusSessions)}
           />
         );
 
@@ -585,6 +975,9 @@ export default function App() {
             onQuestClick={handleOpenQuestDetail}
             onCompleteQuest={handleCompleteQuest}
             onAddQuestForDate={(date) => handleOpenNewQuestDialog(makeDueDateISO(date))}
+            focusMinutesByQuest={getFocusMinutesByQuest(appState.focusSessions)}
+            onExportIcs={handleExportIcs}
+            onImportIcs={handleImportIcs}
           />
         );
 
@@ -592,17 +985,58 @@ export default function App() {
         return (
           <HabitsPage
             habits={appState.habits}
-            onAddHabit={handleAddHabit}
-            onHabitClick={() => {}}
+            onAddHabit={() => setNewHabitDialogOpen(true)}
+            onHabitClick={handleOpenHabitDetail}
             onToggleHabit={handleToggleHabit}
+            dayBoundary={appState.user}
           />
         );
 
       case "focus":
-        return <FocusSessionPage onComplete={handleFocusComplete} />;
+        return (
+          <FocusSessionPage
+            quests={appState.quests}
+            focusSessions={appState.focusSessions}
+            timer={appState.activeFocus ?? null}
+            profiles={getFocusProfiles(appState.user)}
+            activeProfile={getActiveFocusProfile(appState.user)}
+            onSelectProfile={handleSelectFocusProfile}
+            onSaveProfiles={handleSaveFocusProfiles}
+            onUpdateProfile={handleUpdateFocusProfile}
+            focusCycleCount={appState.focusCycleCount ?? 0}
+            dayBoundary={appState.user}
+            onStart={handleStartFocus}
+            onPause={handlePauseFocus}
+            onResume={handleResumeFocus}
+            onReset={handleResetFocus}
+            onLogDistraction={handleLogDistraction}
+            onViewHistory={() => handleNavigate("focus-history")}
+            onToggleSubtask={handleToggleSubtask}
+            onCompleteQuest={handleCompleteQuest}
+            promptQuestId={focusPromptQuestId}
+            onDismissPrompt={() => setFocusPromptQuestId(undefined)}
+          />
+        );
+
+      case "focus-history":
+        return (
+          <FocusHistoryPage
+            quests={appState.quests}
+            focusSessions={appState.focusSessions}
+            dayBoundary={appState.user}
+            onLoadOlder={storageSync.history?.loadOlder}
+            onBack={() => handleNavigate("focus")}
+          />
+        );
 
       case "rewards":
-        return <RewardsPage badges={appState.badges} onBadgeClick={handleBadgeClick} />;
+        return (
+          <RewardsPage
+            badges={appState.badges}
+            badgeProgress={getBadgeProgressMap(appState)}
+            onBadgeClick={handleBadgeClick}
+          />
+        );
 
       case "stats":
         return (
@@ -610,13 +1044,27 @@ export default function App() {
             quests={appState.quests}
             habits={appState.habits}
             focusSessions={appState.focusSessions}
+            focusTotals={getFocusTotals(appState.user, appState.focusSessions)}
             moodByDate={appState.moodByDate}
+            dayBoundary={appState.user}
+            onExportCsv={() => setCsvExportOpen(true)}
           />
         );
 
       case "settings":
         if (!appState.user) return null;
-        return <SettingsPage user={appState.user} onLogout={handleLogout} onUpdateProfile={handleUpdateProfile} />;
+        return (
+          <SettingsPage
+            user={appState.user}
+            onLogout={handleLogout}
+            onUpdateProfile={handleUpdateProfile}
+            onUpdateSettings={handleUpdateSettings}
+            onExportData={handleExportData}
+            onExportCsv={() => setCsvExportOpen(true)}
+            onImportData={handleImportData}
+            onClearData={handleClearData}
+          />
+        );
 
       default:
         return null;
@@ -635,7 +1083,9 @@ export default function App() {
               ☰ Menu
             </button>
             <div className="font-semibold">Solo</div>
-            <div className="w-16" />
+            <div className="w-16 flex justify-end">
+              <SyncStatusIndicator sync={storageSync.sync} onRetry={storageSync.retry} compact />
+            </div>
           </div>
 
           {/* Mobile Drawer */}
@@ -658,6 +1108,9 @@ export default function App() {
                     handleOpenNewQuestDialog();
                     setMobileMenuOpen(false);
                   }}
+                  activeFocus={appState.activeFocus}
+                  sync={storageSync.sync}
+                  onRetrySync={storageSync.retry}
                 />
               </div>
             </div>
@@ -670,11 +1123,14 @@ export default function App() {
               currentPage={appState.currentPage}
               onNavigate={handleNavigate}
               onAddQuest={() => handleOpenNewQuestDialog()}
+              activeFocus={appState.activeFocus}
+              sync={storageSync.sync}
+              onRetrySync={storageSync.retry}
             />
           </div>
 
           {/* Main Content */}
-          <div className="flex-1 min-w-0 min-h-screen pb-20 md:pb-0">
+          <div className={`flex-1 min-w-0 min-h-screen ${appState.activeFocus ? "pb-28" : "pb-20"} md:pb-0`}>
             <div className="container mx-auto max-w-7xl px-4 py-4 pt-16 sm:px-6 sm:py-6 md:pt-6">
               <AnimatePresence mode="wait">
                 <motion.div
@@ -691,7 +1147,11 @@ export default function App() {
           </div>
 
           {/* Mobile Bottom Nav */}
-          <MobileNav currentPage={appState.currentPage} onNavigate={handleNavigate} />
+          <MobileNav
+            currentPage={appState.currentPage}
+            onNavigate={handleNavigate}
+            activeFocus={appState.activeFocus}
+          />
         </div>
       ) : (
         <div>{renderPage()}</div>
@@ -719,21 +1179,28 @@ export default function App() {
           onNewQuest={() => handleOpenNewQuestDialog()}
           onNewAIQuest={handleAddQuestAI}
           onStartFocus={() => handleNavigate("focus")}
+          focusProfiles={getFocusProfiles(appState.user)}
+          onStartFocusProfile={handleStartFocusProfile}
         />
       )}
 
       <QuestDetailDialog
-        quest={selectedQuest}
+        quest={appState.quests.find((q) => q.id === selectedQuest?.id) ?? null}
         open={questDialogOpen}
         onClose={handleCloseQuestDetail}
         onSave={(updatedQuest) => {
           setAppState((prev) => ({
             ...prev,
-            quests: prev.quests.map((q) => (q.id === updatedQuest.id ? updatedQuest : q)),
+            quests: prev.quests.map((q) =>
+              // Apply only the edited fields, keeping changes synced in while the dialog was open.
+              q.id === updatedQuest.id ? rebaseEdit(selectedQuest ?? q, updatedQuest, q) : q
+            ),
           }));
           toast.success("Quest updated!");
         }}
         onComplete={handleCompleteQuest}
+        focusMinutes={selectedQuest ? getFocusMinutesByQuest(appState.focusSessions)[selectedQuest.id] : 0}
+        dayBoundary={appState.user}
         onDelete={(questId) => {
           setAppState((prev) => ({
             ...prev,
@@ -743,7 +1210,12 @@ export default function App() {
         }}
       />
 
-      <BadgeDetailDialog badge={selectedBadge} open={badgeDialogOpen} onClose={() => setBadgeDialogOpen(false)} />
+      <BadgeDetailDialog
+        badge={selectedBadge}
+        progress={selectedBadge ? getBadgeProgress(selectedBadge, appState) : null}
+        open={badgeDialogOpen}
+        onClose={() => setBadgeDialogOpen(false)}
+      />
 
       <QuestCreateDialog
         open={newQuestDialogOpen}
@@ -753,6 +1225,49 @@ export default function App() {
           setNewQuestDefaultDueDate(undefined);
         }}
         onCreate={handleCreateQuest}
+        dayBoundary={appState.user}
+      />
+
+      <HabitDetailDialog
+        habit={appState.habits.find((h) => h.id === selectedHabit?.id) ?? null}
+        open={habitDialogOpen}
+        onClose={() => setHabitDialogOpen(false)}
+        onSave={handleSaveHabit}
+        onArchive={handleArchiveHabit}
+        onDelete={handleDeleteHabit}
+        onToggleDay={handleToggleHabitDay}
+        checkInWindowStart={getCheckInWindowStart(appState.user)}
+        dayBoundary={appState.user}
+      />
+
+      <HabitCreateDialog
+        open={newHabitDialogOpen}
+        onClose={() => setNewHabitDialogOpen(false)}
+        onCreate={handleCreateHabit}
+      />
+
+      <ImportBackupDialog
+        backup={pendingBackup}
+        currentCounts={getBackupCounts(appState)}
+        open={pendingBackup !== null}
+        onClose={() => setPendingBackup(null)}
+        onRestore={handleRestoreBackup}
+      />
+
+      <CsvExportDialog
+        open={csvExportOpen}
+        onClose={() => setCsvExportOpen(false)}
+        quests={appState.quests}
+        habits={appState.habits}
+        loadAllFocusSessions={async () => (await withFullHistory()).focusSessions}
+        dayBoundary={appState.user}
+      />
+
+      <ImportCalendarDialog
+        result={pendingIcsImport}
+        open={pendingIcsImport !== null}
+        onClose={() => setPendingIcsImport(null)}
+        onImport={handleConfirmIcsImport}
       />
 
       {/* Vercel Speed Insights */}
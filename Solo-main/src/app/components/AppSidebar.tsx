@@ -1,6 +1,9 @@
 import { Sword, Home, Target, Flame, Timer, Trophy, BarChart3, Settings, Plus, CalendarDays } from 'lucide-react';
-import { User } from '../types';
+import { ActiveFocusTimer, User } from '../types';
 import { LevelBadge } from './LevelBadge';
+import { FocusMiniTimer } from './FocusMiniTimer';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { SyncState } from '../utils/sync';
 import { Button } from './ui/button';
 
 interface AppSidebarProps {
@@ -8,9 +11,20 @@ interface AppSidebarProps {
   currentPage: string;
   onNavigate: (page: string) => void;
   onAddQuest: () => void;
+  activeFocus?: ActiveFocusTimer | null;
+  sync?: SyncState;
+  onRetrySync?: () => void;
 }
 
-export function AppSidebar({ user, currentPage, onNavigate, onAddQuest }: AppSidebarProps) {
+export function AppSidebar({
+  user,
+  currentPage,
+  onNavigate,
+  onAddQuest,
+  activeFocus,
+  sync,
+  onRetrySync,
+}: AppSidebarProps) {
   const menuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'quests', label: 'Quests', icon: Target },
@@ -54,6 +68,11 @@ export function AppSidebar({ user, currentPage, onNavigate, onAddQuest }: AppSid
           <Plus className="w-4 h-4 mr-2" />
           Add Quest
         </Button>
+        {activeFocus && currentPage !== 'focus' && (
+          <div className="mt-3">
+            <FocusMiniTimer timer={activeFocus} onClick={() => onNavigate('focus')} />
+          </div>
+        )}
       </div>
 
       {/* Navigation */}
@@ -61,7 +80,8 @@ export function AppSidebar({ user, currentPage, onNavigate, onAddQuest }: AppSid
         <div className="space-y-1">
           {menuItems.map((item) => {
             const Icon = item.icon;
-            const isActive = currentPage === item.id;
+            // Sub-pages such as "focus-history" keep their section highlighted.
+            const isActive = currentPage === item.id || currentPage.startsWith(`${item.id}-`);
             
             return (
               <button
@@ -95,6 +115,11 @@ export function AppSidebar({ user, currentPage, onNavigate, onAddQuest }: AppSid
         <div className="text-xs text-muted-foreground mt-1">
           {user.xp} / {user.xpToNextLevel} XP
         </div>
+        {sync && onRetrySync && (
+          <div className="mt-3">
+            <SyncStatusIndicator sync={sync} onRetry={onRetrySync} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,4 @@
-import { Badge as BadgeType } from '../types';
+import { Badge as BadgeType, BadgeProgress } from '../types';
 import { Award, Flame, Trophy, Zap, Crown, Lock } from 'lucide-react';
 import { getRarityColor } from '../utils/xp';
 import { motion } from 'motion/react';
@@ -7,6 +7,8 @@ import { Badge } from './ui/badge';
 
 interface BadgeCardProps {
   badge: BadgeType;
+  /** Live progress toward the badge rule, shown while the badge is locked. */
+  progress?: BadgeProgress | null;
   onClick?: () => void;
 }
 
@@ -18,7 +20,7 @@ const iconMap = {
   crown: Crown
 };
 
-export function BadgeCard({ badge, onClick }: BadgeCardProps) {
+export function BadgeCard({ badge, progress, onClick }: BadgeCardProps) {
   const Icon = iconMap[badge.iconType as keyof typeof iconMap] || Award;
   
   return (
@@ -75,6 +77,22 @@ export function BadgeCard({ badge, onClick }: BadgeCardProps) {
             </div>
           )}
 
+          {/* Progress */}
+          {badge.isLocked && progress && (
+            <div className="space-y-1">
+              <div className="w-full h-1.5 bg-secondary rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-500 to-cyan-500 transition-all"
+                  style={{ width: `${progress.percent}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-cyan-400 font-medium">{progress.label}</span>
+                <span className="text-muted-foreground">{progress.percent}%</span>
+              </div>
+            </div>
+          )}
+
           {/* Unlock date */}
           {!badge.isLocked && badge.unlockedAt && (
             <div className="text-xs text-center text-purple-400">
@@ -1,4 +1,4 @@
-import { Badge as BadgeType } from '../types';
+import { Badge as BadgeType, BadgeProgress } from '../types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { BadgeCard } from './BadgeCard';
 
@@ -7,6 +7,10 @@ interface BadgeDetailDialogProps {
    * The badge to display in the dialog. If null, nothing is rendered.
    */
   badge: BadgeType | null;
+  /**
+   * Progress toward the badge rule, computed by the parent from app state.
+   */
+  progress?: BadgeProgress | null;
   /**
    * Whether the dialog is open. This value is controlled by the parent.
    */
@@ -23,7 +27,7 @@ interface BadgeDetailDialogProps {
  * leverages the existing `BadgeCard` component for visual presentation
  * and surfaces the description and requirement in a larger format.
  */
-export function BadgeDetailDialog({ badge, open, onClose }: BadgeDetailDialogProps) {
+export function BadgeDetailDialog({ badge, progress, open, onClose }: BadgeDetailDialogProps) {
   if (!badge) return null;
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -34,7 +38,7 @@ export function BadgeDetailDialog({ badge, open, onClose }: BadgeDetailDialogPro
         <div className="space-y-4 mt-2">
           {/* Render the badge card for a large preview */}
           <div className="flex justify-center">
-            <BadgeCard badge={badge} />
+            <BadgeCard badge={badge} progress={progress} />
           </div>
           {/* Description */}
           <p className="text-sm text-muted-foreground text-center">
@@ -46,6 +50,12 @@ export function BadgeDetailDialog({ badge, open, onClose }: BadgeDetailDialogPro
               Requirement: {badge.requirement}
             </p>
           )}
+          {/* Progress */}
+          {badge.isLocked && progress && (
+            <p className="text-sm text-center text-cyan-400">
+              Progress: {progress.label}
+            </p>
+          )}
           {/* Unlock date */}
           {!badge.isLocked && badge.unlockedAt && (
             <p className="text-xs text-center text-purple-400">
@@ -10,9 +10,10 @@ import {
   Timer,
   Flame,
   ListTodo,
+  History,
 } from 'lucide-react';
 
-import { Quest } from '../types';
+import { FocusProfile, Quest } from '../types';
 import {
   CommandDialog,
   CommandEmpty,
@@ -32,6 +33,8 @@ interface CommandPaletteProps {
   onNewQuest: () => void;
   onNewAIQuest: () => void;
   onStartFocus: () => void;
+  focusProfiles: FocusProfile[];
+  onStartFocusProfile: (profileId: string) => void;
 }
 
 export function CommandPalette({
@@ -42,6 +45,8 @@ export function CommandPalette({
   onNewQuest,
   onNewAIQuest,
   onStartFocus,
+  focusProfiles,
+  onStartFocusProfile,
 }: CommandPaletteProps) {
   const [query, setQuery] = useState('');
 
@@ -91,6 +96,10 @@ export function CommandPalette({
             Focus
             <CommandShortcut>G F</CommandShortcut>
           </CommandItem>
+          <CommandItem onSelect={() => run(() => onNavigate('focus-history'))}>
+            <History />
+            Focus History
+          </CommandItem>
           <CommandItem onSelect={() => run(() => onNavigate('rewards'))}>
             <Gift />
             Rewards
@@ -128,6 +137,20 @@ export function CommandPalette({
           </CommandItem>
         </CommandGroup>
 
+        <CommandSeparator />
+
+        <CommandGroup heading="Focus Profiles">
+          {focusProfiles.map((profile) => (
+            <CommandItem key={profile.id} onSelect={() => run(() => onStartFocusProfile(profile.id))}>
+              <Timer />
+              Start {profile.name}
+              <CommandShortcut>
+                {profile.focusMinutes}/{profile.shortBreakMinutes}
+              </CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
         {matchingQuests.length > 0 && (
           <>
             <CommandSeparator />
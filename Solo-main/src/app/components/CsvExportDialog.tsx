@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { Target, Flame, Clock, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { FocusSession, Habit, Quest } from '../types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { DayBoundary, addDaysToDateKey, getDayKey } from '../utils/date';
+import {
+  CsvExportKind,
+  ExportRange,
+  getCsvFileName,
+  getFocusSessionsTable,
+  getHabitsTable,
+  getQuestsTable,
+} from '../utils/csvExports';
+import { CsvTable, toCsv } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+
+interface CsvExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  quests: Quest[];
+  habits: Habit[];
+  /** Every focus session, including history not loaded yet. */
+  loadAllFocusSessions: () => Promise<FocusSession[]>;
+  dayBoundary?: DayBoundary | null;
+}
+
+type RangePreset = 'all' | '7' | '30' | '90' | '365' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const EXPORTS: { kind: CsvExportKind; label: string; description: string; icon: typeof Target }[] = [
+  { kind: 'quests', label: 'Quests', description: 'Completions with timestamps and XP, plus open quests', icon: Target },
+  { kind: 'habits', label: 'Habits', description: 'One row per check-in date', icon: Flame },
+  { kind: 'focusSessions', label: 'Focus sessions', description: 'Durations, outcome and linked quest', icon: Clock },
+];
+
+/**
+ * Downloads quests, habits or focus sessions as CSV for spreadsheets,
+ * limited to a date range.
+ */
+export function CsvExportDialog({
+  open,
+  onClose,
+  quests,
+  habits,
+  loadAllFocusSessions,
+  dayBoundary,
+}: CsvExportDialogProps) {
+  const todayKey = getDayKey(new Date(), dayBoundary);
+  const [preset, setPreset] = useState<RangePreset>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) setPreset('all');
+  }, [open]);
+
+  const range: ExportRange =
+    preset === 'all'
+      ? {}
+      : preset === 'custom'
+      ? { from: from || undefined, to: to || undefined }
+      : { from: addDaysToDateKey(todayKey, 1 - Number(preset)), to: todayKey };
+  const invalidRange = !!range.from && !!range.to && range.from > range.to;
+
+  const getTable = async (kind: CsvExportKind) => {
+    if (kind === 'quests') return getQuestsTable(quests, range, dayBoundary);
+    if (kind === 'habits') return getHabitsTable(habits, range, dayBoundary);
+    setLoading(true);
+    try {
+      return getFocusSessionsTable(await loadAllFocusSessions(), quests, range, dayBoundary);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async (kind: CsvExportKind) => {
+    let table: CsvTable;
+    try {
+      table = await getTable(kind);
+    } catch (error) {
+      toast.error('Could not load your full focus history', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    const rows = table.rows.length;
+    if (rows === 0) {
+      toast.info('Nothing to export in this date range');
+      return;
+    }
+    downloadFile(getCsvFileName(kind, range, todayKey), toCsv(table), 'text/csv;charset=utf-8');
+    toast.success(`Exported ${rows} row${rows === 1 ? '' : 's'}`);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onClose();
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export CSV</DialogTitle>
+          <DialogDescription>Spreadsheet-friendly files, one per kind of data.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-2">
+          {/* Date range */}
+          <div className="space-y-3">
+            <Label>Date range</Label>
+            <Select value={preset} onValueChange={(v) => setPreset(v as RangePreset)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_PRESETS.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {preset === 'custom' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="csv-export-from" className="text-xs text-muted-foreground">
+                    From
+                  </Label>
+                  <Input id="csv-export-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="csv-export-to" className="text-xs text-muted-foreground">
+                    To
+                  </Label>
+                  <Input id="csv-export-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </div>
+            )}
+            {invalidRange && <p className="text-xs text-red-400">The start date is after the end date.</p>}
+          </div>
+
+          {/* Files */}
+          <div className="space-y-2">
+            {EXPORTS.map(({ kind, label, description, icon: Icon }) => (
+              <Button
+                key={kind}
+                variant="outline"
+                className="w-full h-auto justify-start py-3"
+                disabled={invalidRange || loading}
+                onClick={() => handleExport(kind)}
+              >
+                <Icon className="w-4 h-4 mr-2 text-primary" />
+                <span className="flex-1 text-left">
+                  <span className="block">{label}</span>
+                  <span className="block text-xs text-muted-foreground font-normal">{description}</span>
+                </span>
+                <Download className="w-4 h-4 text-muted-foreground" />
+              </Button>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
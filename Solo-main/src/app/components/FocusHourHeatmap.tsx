@@ -0,0 +1,58 @@
+import { getHeatmapLevel } from '../utils/heatmap';
+
+interface FocusHourHeatmapProps {
+  /** Focused minutes indexed `[weekday][hour]`, weekday 0 = Sunday. */
+  grid: number[][];
+  color?: string;
+}
+
+const LEVEL_OPACITY = [0, 0.3, 0.5, 0.75, 1];
+// Monday first, like the habit heatmap.
+const ROWS = [
+  { weekday: 1, label: 'Mon' },
+  { weekday: 2, label: 'Tue' },
+  { weekday: 3, label: 'Wed' },
+  { weekday: 4, label: 'Thu' },
+  { weekday: 5, label: 'Fri' },
+  { weekday: 6, label: 'Sat' },
+  { weekday: 0, label: 'Sun' },
+];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+/** Time-of-day by day-of-week grid of focused minutes. */
+export function FocusHourHeatmap({ grid, color = '#06b6d4' }: FocusHourHeatmapProps) {
+  const maxMinutes = Math.max(0, ...grid.flat());
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex flex-col gap-1">
+        {/* Hour labels */}
+        <div className="flex gap-1 ml-9">
+          {HOURS.map((h) => (
+            <div key={h} className="w-4 text-[10px] leading-3 text-muted-foreground text-center">
+              {h % 3 === 0 ? h : ''}
+            </div>
+          ))}
+        </div>
+
+        {ROWS.map(({ weekday, label }) => (
+          <div key={weekday} className="flex items-center gap-1">
+            <div className="w-8 text-[10px] leading-3 text-muted-foreground">{label}</div>
+            {HOURS.map((h) => {
+              const minutes = Math.round(grid[weekday]?.[h] ?? 0);
+              const level = getHeatmapLevel(minutes, maxMinutes);
+              return (
+                <div
+                  key={h}
+                  title={`${label} ${String(h).padStart(2, '0')}:00: ${minutes} min focused`}
+                  className={`w-4 h-4 rounded-sm ${level === 0 ? 'bg-secondary' : ''}`}
+                  style={level > 0 ? { backgroundColor: color, opacity: LEVEL_OPACITY[level] } : undefined}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
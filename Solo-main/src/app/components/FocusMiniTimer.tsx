@@ -0,0 +1,58 @@
+import { Coffee, Pause, Zap } from 'lucide-react';
+import { ActiveFocusTimer } from '../types';
+import { useNow } from '../hooks/useNow';
+import { formatCountdown, getElapsedMs, getRemainingSeconds, isBreakPhase, isTimerPaused } from '../utils/focusTimer';
+
+interface FocusMiniTimerProps {
+  timer: ActiveFocusTimer;
+  onClick: () => void;
+  /** Compact pill for the mobile nav, full row for the sidebar. */
+  compact?: boolean;
+}
+
+/** Running focus/break countdown shown while browsing other pages. */
+export function FocusMiniTimer({ timer, onClick, compact = false }: FocusMiniTimerProps) {
+  const paused = isTimerPaused(timer);
+  const now = useNow(!paused);
+  const remaining = getRemainingSeconds(timer, now);
+  const progress = (getElapsedMs(timer, now) / (timer.duration * 60 * 1000)) * 100;
+  const isBreak = isBreakPhase(timer.phase);
+  const Icon = paused ? Pause : isBreak ? Coffee : Zap;
+  const color = isBreak ? 'text-cyan-400' : 'text-purple-400';
+
+  if (compact) {
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        aria-label="Open focus timer"
+        className={`flex items-center gap-1 px-3 py-1 rounded-full bg-secondary text-xs font-medium ${color}`}
+      >
+        <Icon className="w-3 h-3" />
+        {formatCountdown(remaining)}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="w-full p-3 rounded-lg bg-sidebar-accent text-left transition-all hover:ring-1 hover:ring-primary"
+    >
+      <div className="flex items-center justify-between text-sm">
+        <span className={`flex items-center gap-2 ${color}`}>
+          <Icon className="w-4 h-4" />
+          {paused ? 'Paused' : timer.phase === 'longBreak' ? 'Long break' : isBreak ? 'Break' : 'Focusing'}
+        </span>
+        <span className="font-medium tabular-nums">{formatCountdown(remaining)}</span>
+      </div>
+      <div className="w-full h-1.5 bg-sidebar rounded-full overflow-hidden mt-2">
+        <div
+          className="h-full bg-gradient-to-r from-purple-500 to-cyan-500"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { FocusProfile, Soundscape } from '../types';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Slider } from './ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { createId } from '../utils/id';
+import { normalizeFocusProfile } from '../utils/focusProfiles';
+import { getFocusXP } from '../utils/focusTimer';
+import { DEFAULT_SOUND_VOLUME, SOUNDSCAPES } from '../utils/soundscape';
+
+interface FocusProfileDialogProps {
+  open: boolean;
+  onClose: () => void;
+  profiles: FocusProfile[];
+  onSave: (profiles: FocusProfile[]) => void;
+}
+
+const NUMBER_FIELDS: { key: keyof FocusProfile; label: string; max: number }[] = [
+  { key: 'focusMinutes', label: 'Focus (min)', max: 180 },
+  { key: 'shortBreakMinutes', label: 'Short break (min)', max: 60 },
+  { key: 'longBreakMinutes', label: 'Long break (min)', max: 120 },
+  { key: 'longBreakEvery', label: 'Long break every N sessions', max: 12 },
+];
+
+function createProfile(): FocusProfile {
+  return {
+    id: createId('profile'),
+    name: 'New Profile',
+    focusMinutes: 30,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    longBreakEvery: 4,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+  };
+}
+
+export function FocusProfileDialog({ open, onClose, profiles, onSave }: FocusProfileDialogProps) {
+  const [drafts, setDrafts] = useState<FocusProfile[]>(profiles);
+  const [selectedId, setSelectedId] = useState(profiles[0]?.id);
+
+  // Start from the saved profiles every time the dialog opens.
+  useEffect(() => {
+    if (!open) return;
+    setDrafts(profiles);
+    setSelectedId(profiles[0]?.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const selected = drafts.find((p) => p.id === selectedId) ?? drafts[0];
+
+  const update = (patch: Partial<FocusProfile>) => {
+    if (!selected) return;
+    setDrafts(drafts.map((p) => (p.id === selected.id ? { ...p, ...patch } : p)));
+  };
+
+  const handleAdd = () => {
+    const profile = createProfile();
+    setDrafts([...drafts, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || drafts.length <= 1) return;
+    const remaining = drafts.filter((p) => p.id !== selected.id);
+    setDrafts(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleSave = () => {
+    onSave(drafts.map(normalizeFocusProfile));
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onClose();
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Focus Profiles</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-4">
+          {/* Profile list */}
+          <div className="flex gap-2 flex-wrap">
+            {drafts.map((p) => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => setSelectedId(p.id)}
+                className={`px-3 py-1.5 rounded-lg border text-sm transition-all ${
+                  p.id === selected?.id ? 'border-primary bg-primary/10 text-primary' : 'border-border text-muted-foreground'
+                }`}
+              >
+                {p.name || 'Untitled Profile'}
+              </button>
+            ))}
+            <Button type="button" size="sm" variant="outline" onClick={handleAdd}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {selected && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="focus-profile-name">Name</Label>
+                <Input
+                  id="focus-profile-name"
+                  value={selected.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {NUMBER_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={`focus-profile-${field.key}`}>{field.label}</Label>
+                    <Input
+                      id={`focus-profile-${field.key}`}
+                      type="number"
+                      min={1}
+                      max={field.max}
+                      value={selected[field.key] as number}
+                      onChange={(e) => update({ [field.key]: Number(e.target.value) })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="focus-profile-auto-breaks">Start breaks automatically</Label>
+                <Switch
+                  id="focus-profile-auto-breaks"
+                  checked={selected.autoStartBreaks}
+                  onCheckedChange={(checked) => update({ autoStartBreaks: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="focus-profile-auto-focus">Start next focus block after a break</Label>
+                <Switch
+                  id="focus-profile-auto-focus"
+                  checked={selected.autoStartFocus}
+                  onCheckedChange={(checked) => update({ autoStartFocus: checked })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Soundscape</Label>
+                  <Select
+                    value={selected.soundscape ?? 'none'}
+                    onValueChange={(v) => update({ soundscape: v as Soundscape })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SOUNDSCAPES.map((s) => (
+                        <SelectItem key={s.value} value={s.value}>
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Volume ({selected.volume ?? DEFAULT_SOUND_VOLUME}%)</Label>
+                  <Slider
+                    className="pt-3"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={[selected.volume ?? DEFAULT_SOUND_VOLUME]}
+                    onValueChange={([v]) => update({ volume: v })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="focus-profile-chimes">Chime when focus starts and ends</Label>
+                <Switch
+                  id="focus-profile-chimes"
+                  checked={selected.chimes !== false}
+                  onCheckedChange={(checked) => update({ chimes: checked })}
+                />
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Each completed focus block earns +{getFocusXP(selected.focusMinutes || 1)} XP.
+              </p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4 border-t">
+            <Button type="button" onClick={handleSave}>
+              Save Profiles
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleDelete}
+              disabled={drafts.length <= 1}
+              className="text-destructive ml-auto"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
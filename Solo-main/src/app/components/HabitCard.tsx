@@ -1,5 +1,6 @@
 import { Habit } from '../types';
 import { Flame, CheckCircle2, Circle } from 'lucide-react';
+import { getStreakUnit, getTimesPerWeek } from '../utils/streaks';
 import { motion } from 'motion/react';
 import { Card } from './ui/card';
 
@@ -10,6 +11,16 @@ interface HabitCardProps {
   isCompletedToday?: boolean;
 }
 
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function describeFrequency(habit: Habit): string {
+  if (habit.frequency === 'weekly') return `${getTimesPerWeek(habit)}x per week`;
+  if (habit.frequency === 'custom' && habit.customDays?.length) {
+    return [...habit.customDays].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join(', ');
+  }
+  return habit.frequency;
+}
+
 export function HabitCard({ habit, onClick, onToggle, isCompletedToday = false }: HabitCardProps) {
   return (
     <motion.div
@@ -57,7 +68,7 @@ export function HabitCard({ habit, onClick, onToggle, isCompletedToday = false }
               <Flame className="w-4 h-4 text-orange-400" />
               <div>
                 <span className="text-sm font-medium text-orange-400">{habit.currentStreak}</span>
-                <span className="text-xs text-muted-foreground ml-1">day streak</span>
+                <span className="text-xs text-muted-foreground ml-1">{getStreakUnit(habit)} streak</span>
               </div>
             </div>
             
@@ -68,7 +79,7 @@ export function HabitCard({ habit, onClick, onToggle, isCompletedToday = false }
 
           {/* Frequency */}
           <div className="flex items-center justify-between text-xs">
-            <span className="text-muted-foreground capitalize">{habit.frequency}</span>
+            <span className="text-muted-foreground capitalize">{describeFrequency(habit)}</span>
             <span className="text-purple-400 font-medium">+{habit.xpPerCompletion} XP</span>
           </div>
         </div>
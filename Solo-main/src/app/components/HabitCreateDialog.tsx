@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { Habit } from '../types';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { HabitDraft, HabitFormFields, createEmptyHabitDraft, normalizeHabitDraft } from './HabitFormFields';
+import { createId } from '../utils/id';
+
+interface HabitCreateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onCreate: (habit: Habit) => void;
+}
+
+export function HabitCreateDialog({ open, onClose, onCreate }: HabitCreateDialogProps) {
+  const [draft, setDraft] = useState<HabitDraft>(createEmptyHabitDraft);
+
+  // Start from a clean form every time the dialog opens.
+  useEffect(() => {
+    if (open) setDraft(createEmptyHabitDraft());
+  }, [open]);
+
+  const handleCreate = () => {
+    const habit: Habit = {
+      ...normalizeHabitDraft(draft),
+      id: createId('habit'),
+      currentStreak: 0,
+      longestStreak: 0,
+      completedDates: [],
+      createdAt: new Date().toISOString(),
+    };
+
+    onCreate(habit);
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onClose();
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create New Habit</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-4">
+          <HabitFormFields idPrefix="new-habit" value={draft} onChange={setDraft} />
+
+          {/* Action Buttons */}
+          <div className="flex justify-end gap-2 mt-6">
+            <Button variant="outline" type="button" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleCreate}
+              className="bg-gradient-to-r from-purple-500 to-cyan-500 text-white"
+            >
+              Create Habit
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Archive, ArchiveRestore, CalendarCheck, CheckCircle2, Circle, Flame } from 'lucide-react';
+import { Habit } from '../types';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { HabitDraft, HabitFormFields, normalizeHabitDraft } from './HabitFormFields';
+import { HabitHeatmap } from './HabitHeatmap';
+import { getHabitDayCounts } from '../utils/heatmap';
+import { getCompletedDayKeys, getStreakUnit } from '../utils/streaks';
+import { DayBoundary, addDaysToDateKey, dateKeyToLocalDate, getDayKey } from '../utils/date';
+
+interface HabitDetailDialogProps {
+  habit: Habit | null;
+  open: boolean;
+  onClose: () => void;
+  onSave: (habit: Habit) => void;
+  onArchive: (habitId: string, archived: boolean) => void;
+  onDelete: (habitId: string) => void;
+  /** Adds or removes a completion on a past day (YYYY-MM-DD). */
+  onToggleDay: (habitId: string, dateKey: string) => void;
+  /** Oldest day key that can still be checked in (grace window). */
+  checkInWindowStart: string;
+  dayBoundary?: DayBoundary | null;
+}
+
+const HISTORY_LIMIT = 30;
+
+export function HabitDetailDialog({
+  habit,
+  open,
+  onClose,
+  onSave,
+  onArchive,
+  onDelete,
+  onToggleDay,
+  checkInWindowStart,
+  dayBoundary,
+}: HabitDetailDialogProps) {
+  const [draft, setDraft] = useState<HabitDraft | null>(habit);
+
+  // Keep internal edit state in sync when the selected habit changes.
+  useEffect(() => {
+    setDraft(habit);
+  }, [habit?.id, open]);
+
+  const dayCounts = useMemo(
+    () => (habit ? getHabitDayCounts([habit], dayBoundary) : {}),
+    [habit, dayBoundary]
+  );
+
+  if (!habit || !draft) return null;
+
+  const history = getCompletedDayKeys(habit, dayBoundary).reverse();
+  const unit = getStreakUnit(habit);
+
+  // Days inside the grace window, newest first, for quick check-ins.
+  const todayKey = getDayKey(new Date(), dayBoundary);
+  const windowDays: string[] = [];
+  for (let key = todayKey; key >= checkInWindowStart; key = addDaysToDateKey(key, -1)) {
+    windowDays.push(key);
+  }
+
+  const handleSave = () => {
+    onSave({ ...habit, ...normalizeHabitDraft(draft) });
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onClose();
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Habit Details</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-4">
+          <HabitFormFields idPrefix="habit" value={draft} onChange={setDraft} />
+
+          {/* History */}
+          <div className="space-y-2">
+            <Label>History</Label>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Flame className="w-4 h-4 text-orange-400" />
+                {habit.currentStreak} {unit} streak (best {habit.longestStreak})
+              </span>
+              <span className="flex items-center gap-1">
+                <CalendarCheck className="w-4 h-4 text-green-400" />
+                {history.length} completions
+              </span>
+            </div>
+            {!habit.archived && (
+              <div className="flex gap-2 flex-wrap pt-2">
+                {windowDays.map((key) => {
+                  const done = (dayCounts[key] || 0) > 0;
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => onToggleDay(habit.id, key)}
+                      className={`flex items-center gap-1 px-3 py-1.5 rounded-lg border text-sm transition-all ${
+                        done ? 'border-green-400/50 bg-green-400/10 text-green-400' : 'border-border text-muted-foreground'
+                      }`}
+                    >
+                      {done ? <CheckCircle2 className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                      {key === todayKey ? 'Today' : format(dateKeyToLocalDate(key), 'EEE, MMM dd')}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            <div className="pt-2">
+              <HabitHeatmap
+                counts={dayCounts}
+                color={habit.color}
+                editableFrom={checkInWindowStart}
+                todayKey={todayKey}
+                onDayClick={habit.archived ? undefined : (key) => onToggleDay(habit.id, key)}
+              />
+              {!habit.archived && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Days since {format(dateKeyToLocalDate(checkInWindowStart), 'MMM dd')} can be logged or
+                  removed. XP is granted or refunded accordingly.
+                </p>
+              )}
+            </div>
+            {history.length > 0 ? (
+              <div className="flex gap-2 flex-wrap mt-2">
+                {history.slice(0, HISTORY_LIMIT).map((key) => (
+                  <span
+                    key={key}
+                    className="text-xs px-2 py-1 rounded-full bg-secondary text-secondary-foreground"
+                  >
+                    {format(dateKeyToLocalDate(key), 'EEE, MMM dd yyyy')}
+                  </span>
+                ))}
+                {history.length > HISTORY_LIMIT && (
+                  <span className="text-xs px-2 py-1 text-muted-foreground">
+                    +{history.length - HISTORY_LIMIT} earlier
+                  </span>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No completions yet.</p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4 border-t flex-wrap">
+            <Button onClick={handleSave}>Save Changes</Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                onArchive(habit.id, !habit.archived);
+                onClose();
+              }}
+            >
+              {habit.archived ? (
+                <>
+                  <ArchiveRestore className="w-4 h-4 mr-2" />
+                  Unarchive
+                </>
+              ) : (
+                <>
+                  <Archive className="w-4 h-4 mr-2" />
+                  Archive
+                </>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                onDelete(habit.id);
+                onClose();
+              }}
+              className="text-destructive ml-auto"
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
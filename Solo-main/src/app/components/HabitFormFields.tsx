@@ -0,0 +1,208 @@
+import { Habit } from '../types';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+/** Editable subset of a habit shared by the create and detail dialogs. */
+export type HabitDraft = Pick<
+  Habit,
+  | 'title'
+  | 'description'
+  | 'frequency'
+  | 'customDays'
+  | 'timesPerWeek'
+  | 'xpPerCompletion'
+  | 'color'
+  | 'reminderTime'
+>;
+
+export const HABIT_COLORS = ['#8b5cf6', '#06b6d4', '#10b981', '#f59e0b', '#ef4444', '#ec4899'];
+
+export const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const FREQUENCIES = ['daily', 'weekly', 'custom'] as const;
+
+export function createEmptyHabitDraft(): HabitDraft {
+  return {
+    title: '',
+    description: '',
+    frequency: 'daily',
+    customDays: [],
+    timesPerWeek: 3,
+    xpPerCompletion: 10,
+    color: HABIT_COLORS[0],
+    reminderTime: undefined,
+  };
+}
+
+/** Trims text fields and clamps numbers before a draft is persisted. */
+export function normalizeHabitDraft(draft: HabitDraft): HabitDraft {
+  return {
+    title: draft.title.trim() || 'Untitled Habit',
+    description: draft.description?.trim() || undefined,
+    frequency: draft.frequency,
+    customDays: draft.frequency === 'custom' ? draft.customDays ?? [] : undefined,
+    timesPerWeek:
+      draft.frequency === 'weekly' ? Math.min(7, Math.max(1, Math.round(draft.timesPerWeek ?? 1))) : undefined,
+    xpPerCompletion: Math.min(100, Math.max(1, Math.round(draft.xpPerCompletion || 1))),
+    color: draft.color,
+    reminderTime: draft.reminderTime || undefined,
+  };
+}
+
+interface HabitFormFieldsProps {
+  /** Prefix for input ids so two dialogs can be mounted at once. */
+  idPrefix: string;
+  value: HabitDraft;
+  onChange: (value: HabitDraft) => void;
+}
+
+export function HabitFormFields({ idPrefix, value, onChange }: HabitFormFieldsProps) {
+  const set = (patch: Partial<HabitDraft>) => onChange({ ...value, ...patch });
+
+  const toggleDay = (day: number) => {
+    const days = value.customDays ?? [];
+    set({ customDays: days.includes(day) ? days.filter((d) => d !== day) : [...days, day] });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Title */}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-title`}>Title</Label>
+        <Input
+          id={`${idPrefix}-title`}
+          value={value.title}
+          onChange={(e) => set({ title: e.target.value })}
+          placeholder="Habit name"
+        />
+      </div>
+
+      {/* Description */}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Textarea
+          id={`${idPrefix}-description`}
+          value={value.description || ''}
+          onChange={(e) => set({ description: e.target.value })}
+          placeholder="Why does this habit matter?"
+          rows={2}
+        />
+      </div>
+
+      {/* Frequency & XP */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Frequency</Label>
+          <Select
+            value={value.frequency}
+            onValueChange={(v) => {
+              if ((FREQUENCIES as readonly string[]).includes(v)) {
+                set({ frequency: v as Habit['frequency'] });
+              }
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Every day</SelectItem>
+              <SelectItem value="weekly">Times per week</SelectItem>
+              <SelectItem value="custom">Specific weekdays</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-xp`}>XP per completion</Label>
+          <Input
+            id={`${idPrefix}-xp`}
+            type="number"
+            min={1}
+            max={100}
+            value={value.xpPerCompletion}
+            onChange={(e) => set({ xpPerCompletion: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {/* Schedule details */}
+      {value.frequency === 'weekly' && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-times`}>Times per week</Label>
+          <Input
+            id={`${idPrefix}-times`}
+            type="number"
+            min={1}
+            max={7}
+            value={value.timesPerWeek ?? 1}
+            onChange={(e) => set({ timesPerWeek: Number(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {value.frequency === 'custom' && (
+        <div className="space-y-2">
+          <Label>Weekdays</Label>
+          <div className="flex gap-2 flex-wrap">
+            {WEEKDAYS.map((day) => {
+              const active = value.customDays?.includes(day.value) ?? false;
+              return (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleDay(day.value)}
+                  className={`px-3 py-1.5 rounded-lg border text-sm transition-all ${
+                    active ? 'border-primary bg-primary/10 text-primary' : 'border-border text-muted-foreground'
+                  }`}
+                >
+                  {day.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Color & Reminder */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Color</Label>
+          <div className="flex gap-2">
+            {HABIT_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                aria-label={`Color ${color}`}
+                onClick={() => set({ color })}
+                className={`w-8 h-8 rounded-full border-2 transition-all ${
+                  value.color === color ? 'border-foreground scale-110' : 'border-transparent'
+                }`}
+                style={{ backgroundColor: color }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-reminder`}>Reminder time</Label>
+          <Input
+            id={`${idPrefix}-reminder`}
+            type="time"
+            value={value.reminderTime || ''}
+            onChange={(e) => set({ reminderTime: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
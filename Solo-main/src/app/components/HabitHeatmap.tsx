@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { buildHeatmapWeeks, getHeatmapLevel } from '../utils/heatmap';
+import { dateKeyToLocalDate, getDayKey } from '../utils/date';
+
+interface HabitHeatmapProps {
+  /** Completions per local day key (YYYY-MM-DD). */
+  counts: Record<string, number>;
+  color?: string;
+  weeks?: number;
+  /** When provided, past and present cells become clickable. */
+  onDayClick?: (dateKey: string) => void;
+  /** Oldest clickable day key; older cells stay read-only. */
+  editableFrom?: string;
+  /** Tooltip suffix, e.g. "completions" or "habits done". */
+  unitLabel?: string;
+  /** Current day key under the user's day boundary. */
+  todayKey?: string;
+}
+
+const LEVEL_OPACITY = [0, 0.3, 0.5, 0.75, 1];
+const ROW_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+export function HabitHeatmap({
+  counts,
+  color = '#8b5cf6',
+  weeks = 53,
+  onDayClick,
+  editableFrom,
+  unitLabel = 'completions',
+  todayKey = getDayKey(new Date()),
+}: HabitHeatmapProps) {
+  const columns = useMemo(() => buildHeatmapWeeks(counts, todayKey, weeks), [counts, todayKey, weeks]);
+  const maxCount = useMemo(() => Math.max(0, ...Object.values(counts)), [counts]);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-1">
+        {/* Weekday labels */}
+        <div className="flex flex-col gap-1 mr-1 pt-4">
+          {ROW_LABELS.map((label, i) => (
+            <div key={i} className="h-3 text-[10px] leading-3 text-muted-foreground">
+              {label}
+            </div>
+          ))}
+        </div>
+
+        {columns.map((days, w) => {
+          const firstOfMonth = days.find((d) => d.date.getDate() === 1);
+          return (
+            <div key={days[0].key} className="flex flex-col gap-1">
+              <div className="h-3 text-[10px] leading-3 text-muted-foreground whitespace-nowrap">
+                {firstOfMonth || w === 0 ? format((firstOfMonth ?? days[0]).date, 'MMM') : ''}
+              </div>
+              {days.map((day) => {
+                const level = getHeatmapLevel(day.count, maxCount);
+                const clickable =
+                  !!onDayClick && !day.isFuture && (!editableFrom || day.key >= editableFrom);
+                return (
+                  <button
+                    key={day.key}
+                    type="button"
+                    disabled={!clickable}
+                    onClick={() => onDayClick?.(day.key)}
+                    title={`${format(day.date, 'EEE, MMM dd yyyy')}: ${day.count} ${unitLabel}`}
+                    className={`w-3 h-3 rounded-sm ${level === 0 ? 'bg-secondary' : ''} ${
+                      day.isFuture ? 'opacity-30' : ''
+                    } ${clickable ? 'cursor-pointer hover:ring-1 hover:ring-primary' : 'cursor-default'}`}
+                    style={level > 0 ? { backgroundColor: color, opacity: LEVEL_OPACITY[level] } : undefined}
+                  />
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { BackupCounts, ParsedBackup, RestoreMode } from '../utils/backup';
+
+interface ImportBackupDialogProps {
+  /** The validated backup to preview. If null, nothing is rendered. */
+  backup: ParsedBackup | null;
+  /** What the account holds right now, shown next to the backup's counts. */
+  currentCounts: BackupCounts;
+  open: boolean;
+  onClose: () => void;
+  onRestore: (mode: RestoreMode) => void;
+}
+
+const COUNT_LABELS: { key: keyof BackupCounts; label: string }[] = [
+  { key: 'quests', label: 'Quests' },
+  { key: 'habits', label: 'Habits' },
+  { key: 'focusSessions', label: 'Focus sessions' },
+  { key: 'unlockedBadges', label: 'Unlocked badges' },
+  { key: 'moods', label: 'Mood entries' },
+];
+
+/**
+ * Previews a backup file before it is restored and lets the user choose
+ * whether it replaces the current data or is merged into it.
+ */
+export function ImportBackupDialog({ backup, currentCounts, open, onClose, onRestore }: ImportBackupDialogProps) {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  useEffect(() => {
+    if (open) setMode('merge');
+  }, [open]);
+
+  if (!backup) return null;
+
+  const repairs = backup.report.repairs.length;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onClose();
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            {backup.exportedAt
+              ? `Exported ${format(new Date(backup.exportedAt), 'MMM d, yyyy HH:mm')}`
+              : 'Export date unknown'}
+            {backup.state.user && ` · ${backup.state.user.name}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-2">
+          {/* Counts */}
+          <div className="rounded-lg border border-border/50 text-sm">
+            <div className="grid grid-cols-3 px-4 py-2 text-xs text-muted-foreground border-b border-border/50">
+              <span />
+              <span className="text-right">Current</span>
+              <span className="text-right">Backup</span>
+            </div>
+            {COUNT_LABELS.map(({ key, label }) => (
+              <div key={key} className="grid grid-cols-3 px-4 py-2">
+                <span>{label}</span>
+                <span className="text-right text-muted-foreground">{currentCounts[key]}</span>
+                <span className="text-right font-medium">{backup.counts[key]}</span>
+              </div>
+            ))}
+          </div>
+
+          {repairs > 0 && (
+            <p className="text-xs text-amber-400">
+              {repairs} problem{repairs === 1 ? ' was' : 's were'} repaired while reading this file. Damaged entries
+              that could not be repaired are left out.
+            </p>
+          )}
+
+          {/* Mode */}
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="gap-3">
+            <Label
+              htmlFor="restore-merge"
+              className="flex items-start gap-3 p-3 rounded-lg border border-border/50 cursor-pointer"
+            >
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+              <span>
+                <span className="block font-medium">Merge</span>
+                <span className="block text-xs text-muted-foreground font-normal">
+                  Keep current data and add what is missing. Entries in both keep the most recently edited copy.
+                </span>
+              </span>
+            </Label>
+            <Label
+              htmlFor="restore-replace"
+              className="flex items-start gap-3 p-3 rounded-lg border border-border/50 cursor-pointer"
+            >
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+              <span>
+                <span className="block font-medium">Replace</span>
+                <span className="block text-xs text-muted-foreground font-normal">
+                  Discard current quests, habits, sessions, badges and moods and use the backup instead.
+                </span>
+              </span>
+            </Label>
+          </RadioGroup>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" type="button" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => onRestore(mode)}
+              className={
+                mode === 'replace'
+                  ? 'bg-destructive text-white hover:bg-destructive/90'
+                  : 'bg-gradient-to-r from-purple-500 to-cyan-500 text-white'
+              }
+            >
+              {mode === 'replace' ? 'Replace Data' : 'Merge Data'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+import { format } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { IcsImport } from '../utils/ics';
+import { describeRecurrence } from '../utils/recurrence';
+
+interface ImportCalendarDialogProps {
+  /** Quests parsed from the picked .ics file. If null, nothing is rendered. */
+  result: IcsImport | null;
+  open: boolean;
+  onClose: () => void;
+  onImport: () => void;
+}
+
+/**
+ * Previews the quests an .ics file turns into, and the events that were
+ * skipped, before anything is added.
+ */
+export function ImportCalendarDialog({ result, open, onClose, onImport }: ImportCalendarDialogProps) {
+  if (!result) return null;
+
+  const { quests, skipped, notes } = result;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) onClose();
+      }}
+    >
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Calendar</DialogTitle>
+          <DialogDescription>
+            {quests.length > 0
+              ? `${quests.length} event${quests.length === 1 ? '' : 's'} will be added as pending quests.`
+              : 'No events in this file can be added as quests.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          {quests.length > 0 && (
+            <div className="rounded-lg border border-border/50 divide-y divide-border/50 max-h-72 overflow-y-auto">
+              {quests.map((quest) => (
+                <div key={quest.id} className="px-4 py-2 text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-medium truncate">{quest.title}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {quest.dueDate && format(new Date(quest.dueDate), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                  {(quest.recurrence || quest.tags.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      {quest.recurrence && (
+                        <span className="flex items-center gap-1 text-xs text-cyan-400 mr-1">
+                          <Repeat className="w-3 h-3" />
+                          {describeRecurrence(quest.recurrence)}
+                        </span>
+                      )}
+                      {quest.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-xs">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {notes.length > 0 && (
+            <div className="text-xs text-amber-400 space-y-1">
+              {notes.map((note, i) => (
+                <p key={i}>
+                  {note.title}: {note.reason}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {skipped.length > 0 && (
+            <details className="text-xs text-muted-foreground">
+              <summary className="cursor-pointer">
+                {skipped.length} event{skipped.length === 1 ? '' : 's'} skipped
+              </summary>
+              <div className="mt-2 space-y-1">
+                {skipped.map((event, i) => (
+                  <p key={i}>
+                    {event.title}: {event.reason}
+                  </p>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" type="button" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              disabled={quests.length === 0}
+              onClick={onImport}
+              className="bg-gradient-to-r from-purple-500 to-cyan-500 text-white"
+            >
+              Import {quests.length} Quest{quests.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
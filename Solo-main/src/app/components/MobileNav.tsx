@@ -1,11 +1,14 @@
 import { Home, Target, Flame, Timer, Trophy, BarChart3, Settings, CalendarDays } from 'lucide-react';
+import { ActiveFocusTimer } from '../types';
+import { FocusMiniTimer } from './FocusMiniTimer';
 
 interface MobileNavProps {
   currentPage: string;
   onNavigate: (page: string) => void;
+  activeFocus?: ActiveFocusTimer | null;
 }
 
-export function MobileNav({ currentPage, onNavigate }: MobileNavProps) {
+export function MobileNav({ currentPage, onNavigate, activeFocus }: MobileNavProps) {
   const menuItems = [
     { id: 'dashboard', icon: Home },
     { id: 'quests', icon: Target },
@@ -19,10 +22,15 @@ export function MobileNav({ currentPage, onNavigate }: MobileNavProps) {
 
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-card border-t border-border z-50 md:hidden">
+      {activeFocus && currentPage !== 'focus' && (
+        <div className="flex justify-center pt-2">
+          <FocusMiniTimer timer={activeFocus} onClick={() => onNavigate('focus')} compact />
+        </div>
+      )}
       <div className="flex items-center justify-around p-2">
         {menuItems.slice(0, 5).map((item) => {
           const Icon = item.icon;
-          const isActive = currentPage === item.id;
+          const isActive = currentPage === item.id || currentPage.startsWith(`${item.id}-`);
           
           return (
             <button
@@ -1,22 +1,27 @@
 import { Quest } from '../types';
-import { Calendar, Tag, Trophy, CheckCircle2, Circle, Clock } from 'lucide-react';
+import { Calendar, Tag, Trophy, CheckCircle2, Circle, Clock, Repeat, Timer } from 'lucide-react';
 import { getDifficultyColor } from '../utils/xp';
 import { motion } from 'motion/react';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { format } from 'date-fns';
+import { describeRecurrence, getQuestRecurrence } from '../utils/recurrence';
+import { formatFocusMinutes } from '../utils/focus';
 
 interface QuestCardProps {
   quest: Quest;
   onClick?: () => void;
   onComplete?: () => void;
+  /** Completed focus minutes spent on this quest. */
+  focusMinutes?: number;
 }
 
-export function QuestCard({ quest, onClick, onComplete }: QuestCardProps) {
+export function QuestCard({ quest, onClick, onComplete, focusMinutes = 0 }: QuestCardProps) {
   const completedSubtasks = quest.subtasks.filter(st => st.completed).length;
   const totalSubtasks = quest.subtasks.length;
   const progressPercentage = totalSubtasks > 0 ? (completedSubtasks / totalSubtasks) * 100 : 0;
+  const recurrence = getQuestRecurrence(quest);
 
   return (
     <motion.div
@@ -99,6 +104,20 @@ export function QuestCard({ quest, onClick, onComplete }: QuestCardProps) {
                   <span>{format(new Date(quest.dueDate), 'MMM dd')}</span>
                 </div>
               )}
+
+              {focusMinutes > 0 && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Timer className="w-3 h-3" />
+                  <span>{formatFocusMinutes(focusMinutes)} focused</span>
+                </div>
+              )}
+
+              {recurrence && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Repeat className="w-3 h-3" />
+                  <span>{describeRecurrence(recurrence)}</span>
+                </div>
+              )}
               
               {quest.tags.length > 0 && (
                 <div className="flex items-center gap-1">
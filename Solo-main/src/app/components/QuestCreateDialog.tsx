@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { Quest, Subtask, QuestDifficulty } from "../types";
+import { Quest, Subtask, QuestDifficulty, QuestRecurrence } from "../types";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -16,12 +16,16 @@ import { Badge } from "./ui/badge";
 import { Plus, X } from "lucide-react";
 import { getXPForDifficulty } from "../utils/xp";
 import { createId } from "../utils/id"; // ✅ fallback ID untuk mobile
+import { DayBoundary, getDayKey, isoToDayKey } from "../utils/date";
+import { getNextOccurrence, occurrenceDueDateISO } from "../utils/recurrence";
+import { QuestRecurrenceField } from "./QuestRecurrenceField";
 
 interface QuestCreateDialogProps {
   open: boolean;
   onClose: () => void;
   onCreate: (quest: Quest) => void;
   defaultDueDate?: string;
+  dayBoundary?: DayBoundary | null;
 }
 
 // ✅ Validasi difficulty biar gak crash kalau value aneh
@@ -39,6 +43,7 @@ export function QuestCreateDialog({
   onClose,
   onCreate,
   defaultDueDate,
+  dayBoundary,
 }: QuestCreateDialogProps) {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
@@ -48,6 +53,7 @@ export function QuestCreateDialog({
   const [newTag, setNewTag] = useState("");
   const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [newSubtask, setNewSubtask] = useState("");
+  const [recurrence, setRecurrence] = useState<QuestRecurrence | null>(null);
 
   useEffect(() => {
     if (!open) return;
@@ -115,9 +121,17 @@ export function QuestCreateDialog({
     setNewTag("");
     setSubtasks([]);
     setNewSubtask("");
+    setRecurrence(null);
   }
 
+  const todayKey = getDayKey(new Date(), dayBoundary);
+  const anchorKey = isoToDayKey(dueDate, dayBoundary) ?? todayKey;
+
   const handleCreate = () => {
+    // A repeating quest without a due date starts at its next occurrence.
+    const firstOccurrence =
+      recurrence && !dueDate ? getNextOccurrence(recurrence, todayKey) : null;
+
     const quest: Quest = {
       id: createId("quest"), // ✅ FIX: crypto.randomUUID() bikin blank di sebagian HP
       title: title.trim() || "Untitled Quest",
@@ -125,10 +139,11 @@ export function QuestCreateDialog({
       difficulty,
       status: "pending",
       xpReward,
-      dueDate,
+      dueDate: firstOccurrence ? occurrenceDueDateISO(firstOccurrence) : dueDate,
       tags,
       subtasks,
       createdAt: new Date().toISOString(),
+      recurrence: recurrence ?? undefined,
     };
 
     onCreate(quest);
@@ -210,6 +225,14 @@ export function QuestCreateDialog({
             </div>
           </div>
 
+          {/* Repeat */}
+          <QuestRecurrenceField
+            idPrefix="new-quest"
+            value={recurrence}
+            onChange={setRecurrence}
+            anchorKey={anchorKey}
+          />
+
           {/* XP Reward preview */}
           <div className="text-sm text-muted-foreground">
             XP Reward: <span className="font-medium">{xpReward}</span>
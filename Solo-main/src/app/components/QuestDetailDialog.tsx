@@ -6,9 +6,16 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { Calendar, Tag, Trophy, CheckCircle2, Circle, Plus, X } from 'lucide-react';
+import { Calendar, Tag, Trophy, CheckCircle2, Circle, Plus, X, Repeat } from 'lucide-react';
+import { format } from 'date-fns';
 import { Badge } from './ui/badge';
 import { getDifficultyColor, getXPForDifficulty } from '../utils/xp';
+import { DayBoundary, dateKeyToLocalDate, getDayKey, isoToDayKey } from '../utils/date';
+import { getQuestRecurrence } from '../utils/recurrence';
+import { QuestRecurrenceField } from './QuestRecurrenceField';
+import { formatFocusMinutes } from '../utils/focus';
+
+const OCCURRENCE_HISTORY_LIMIT = 14;
 
 interface QuestDetailDialogProps {
   quest: Quest | null;
@@ -17,9 +24,21 @@ interface QuestDetailDialogProps {
   onSave: (quest: Quest) => void;
   onComplete: (questId: string) => void;
   onDelete: (questId: string) => void;
+  /** Completed focus minutes spent on this quest. */
+  focusMinutes?: number;
+  dayBoundary?: DayBoundary | null;
 }
 
-export function QuestDetailDialog({ quest, open, onClose, onSave, onComplete, onDelete }: QuestDetailDialogProps) {
+export function QuestDetailDialog({
+  quest,
+  open,
+  onClose,
+  onSave,
+  onComplete,
+  onDelete,
+  focusMinutes = 0,
+  dayBoundary,
+}: QuestDetailDialogProps) {
   const [editedQuest, setEditedQuest] = useState<Quest | null>(quest);
   const [newTag, setNewTag] = useState('');
   const [newSubtask, setNewSubtask] = useState('');
@@ -33,6 +52,10 @@ export function QuestDetailDialog({ quest, open, onClose, onSave, onComplete, on
 
   if (!quest || !editedQuest) return null;
 
+  const recurrence = getQuestRecurrence(editedQuest);
+  const occurrences = [...(quest.occurrences ?? [])].reverse();
+  const completedOccurrences = occurrences.filter((o) => o.completedAt).length;
+
   const handleAddTag = () => {
     if (newTag.trim()) {
       setEditedQuest({
@@ -160,9 +183,46 @@ export function QuestDetailDialog({ quest, open, onClose, onSave, onComplete, on
             </div>
           </div>
 
+          {/* Repeat */}
+          <QuestRecurrenceField
+            idPrefix="quest"
+            value={recurrence}
+            // Clearing the legacy flags lets "Does not repeat" stick.
+            onChange={(next) =>
+              setEditedQuest({ ...editedQuest, recurrence: next ?? undefined, isDaily: undefined, isWeekly: undefined })
+            }
+            anchorKey={isoToDayKey(editedQuest.dueDate, dayBoundary) ?? getDayKey(new Date(), dayBoundary)}
+          />
+
+          {occurrences.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Repeat className="w-4 h-4" />
+                Past occurrences ({completedOccurrences}/{occurrences.length} completed)
+              </Label>
+              <div className="flex gap-2 flex-wrap">
+                {occurrences.slice(0, OCCURRENCE_HISTORY_LIMIT).map((o) => (
+                  <span
+                    key={o.dueDate}
+                    className={`text-xs px-2 py-1 rounded-full ${
+                      o.completedAt ? 'bg-green-400/10 text-green-400' : 'bg-secondary text-muted-foreground line-through'
+                    }`}
+                  >
+                    {format(dateKeyToLocalDate(o.dueDate), 'EEE, MMM dd')}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* XP Reward preview */}
           <div className="text-sm text-muted-foreground">
             XP Reward: <span className="font-medium">{editedQuest.xpReward}</span>
+            {focusMinutes > 0 && (
+              <>
+                {' • '}Focus time: <span className="font-medium">{formatFocusMinutes(focusMinutes)}</span>
+              </>
+            )}
           </div>
 
           {/* Tags */}
@@ -0,0 +1,128 @@
+import { QuestRecurrence } from '../types';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { WEEKDAYS } from './HabitFormFields';
+import { dateKeyToLocalDate } from '../utils/date';
+
+const NO_REPEAT = 'none';
+const KINDS = ['daily', 'weekly', 'monthly', 'interval'] as const;
+
+interface QuestRecurrenceFieldProps {
+  /** Prefix for input ids so two dialogs can be mounted at once. */
+  idPrefix: string;
+  value: QuestRecurrence | null;
+  onChange: (value: QuestRecurrence | null) => void;
+  /** Day key (YYYY-MM-DD) new rules are based on, usually the due date or today. */
+  anchorKey: string;
+}
+
+function createRecurrence(kind: QuestRecurrence['kind'], anchorKey: string): QuestRecurrence {
+  const anchor = dateKeyToLocalDate(anchorKey);
+  switch (kind) {
+    case 'weekly':
+      return { kind, weekdays: [anchor.getDay()] };
+    case 'monthly':
+      return { kind, dayOfMonth: anchor.getDate() };
+    case 'interval':
+      return { kind, everyDays: 2, anchor: anchorKey };
+    default:
+      return { kind: 'daily' };
+  }
+}
+
+export function QuestRecurrenceField({ idPrefix, value, onChange, anchorKey }: QuestRecurrenceFieldProps) {
+  const toggleWeekday = (day: number) => {
+    if (value?.kind !== 'weekly') return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day];
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Repeat</Label>
+      <Select
+        value={value?.kind ?? NO_REPEAT}
+        onValueChange={(v) => {
+          if (v === NO_REPEAT) {
+            onChange(null);
+          } else if ((KINDS as readonly string[]).includes(v)) {
+            onChange(createRecurrence(v as QuestRecurrence['kind'], anchorKey));
+          }
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+          <SelectItem value="daily">Every day</SelectItem>
+          <SelectItem value="weekly">Weekly on…</SelectItem>
+          <SelectItem value="monthly">Monthly on day…</SelectItem>
+          <SelectItem value="interval">Every N days</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value?.kind === 'weekly' && (
+        <div className="flex gap-2 flex-wrap pt-1">
+          {WEEKDAYS.map((day) => {
+            const active = value.weekdays.includes(day.value);
+            return (
+              <button
+                key={day.value}
+                type="button"
+                onClick={() => toggleWeekday(day.value)}
+                className={`px-3 py-1.5 rounded-lg border text-sm transition-all ${
+                  active ? 'border-primary bg-primary/10 text-primary' : 'border-border text-muted-foreground'
+                }`}
+              >
+                {day.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value?.kind === 'monthly' && (
+        <div className="flex items-center gap-2 pt-1">
+          <Label htmlFor={`${idPrefix}-day-of-month`} className="text-sm text-muted-foreground">
+            Day of month
+          </Label>
+          <Input
+            id={`${idPrefix}-day-of-month`}
+            type="number"
+            min={1}
+            max={31}
+            className="w-24"
+            value={value.dayOfMonth}
+            onChange={(e) =>
+              onChange({ ...value, dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })
+            }
+          />
+        </div>
+      )}
+
+      {value?.kind === 'interval' && (
+        <div className="flex items-center gap-2 pt-1">
+          <Label htmlFor={`${idPrefix}-every-days`} className="text-sm text-muted-foreground">
+            Every
+          </Label>
+          <Input
+            id={`${idPrefix}-every-days`}
+            type="number"
+            min={1}
+            max={365}
+            className="w-24"
+            value={value.everyDays}
+            onChange={(e) =>
+              onChange({ ...value, everyDays: Math.min(365, Math.max(1, Number(e.target.value) || 1)) })
+            }
+          />
+          <span className="text-sm text-muted-foreground">days</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Cloud, CloudOff, CloudUpload, Loader2, WifiOff } from 'lucide-react';
+import { format } from 'date-fns';
+import { SyncState } from '../utils/sync';
+
+interface SyncStatusIndicatorProps {
+  sync: SyncState;
+  onRetry: () => void;
+  /** Icon-only variant for the mobile top bar. */
+  compact?: boolean;
+}
+
+const formatTime = (iso?: string) => (iso ? format(new Date(iso), 'HH:mm') : null);
+
+export function SyncStatusIndicator({ sync, onRetry, compact = false }: SyncStatusIndicatorProps) {
+  if (sync.status === 'idle') return null;
+
+  const pending = sync.pendingChanges ?? 0;
+  const savedAt = formatTime(sync.lastSyncedAt);
+  const lastSynced = savedAt ? `Last synced at ${savedAt}` : 'Not synced yet';
+  const pendingLabel = pending > 0 ? `${pending} change${pending === 1 ? '' : 's'} pending` : null;
+  const title = [pendingLabel, lastSynced].filter(Boolean).join(' · ');
+
+  // Small count bubble on the compact icon.
+  const countBadge =
+    compact && pending > 0 ? (
+      <span className="absolute -top-1.5 -right-2 min-w-4 h-4 px-1 rounded-full bg-primary text-[10px] leading-4 text-primary-foreground text-center">
+        {pending > 99 ? '99+' : pending}
+      </span>
+    ) : null;
+
+  if (sync.status === 'failed') {
+    const retryAt = formatTime(sync.nextRetryAt);
+    return (
+      <button
+        type="button"
+        onClick={onRetry}
+        title={[sync.error ? `Sync failed: ${sync.error}` : 'Sync failed', retryAt && `retrying at ${retryAt}`, title]
+          .filter(Boolean)
+          .join(' · ')}
+        className="relative flex items-center gap-2 text-xs text-red-400 hover:underline"
+      >
+        <CloudOff className="w-4 h-4" />
+        {countBadge}
+        {!compact && 'Sync failed · Retry'}
+      </button>
+    );
+  }
+
+  if (sync.status === 'offline') {
+    return (
+      <div className="relative flex items-center gap-2 text-xs text-amber-400" title={`Offline · ${title}`}>
+        <WifiOff className="w-4 h-4" />
+        {countBadge}
+        {!compact && (pending > 0 ? `Offline · ${pending} pending` : 'Offline')}
+      </div>
+    );
+  }
+
+  const icon =
+    sync.status === 'saving' ? (
+      <Loader2 className="w-4 h-4 animate-spin" />
+    ) : sync.status === 'pending' ? (
+      <CloudUpload className="w-4 h-4" />
+    ) : (
+      <Cloud className="w-4 h-4" />
+    );
+  const label =
+    sync.status === 'saving'
+      ? 'Saving…'
+      : sync.status === 'pending'
+      ? `${pending} pending`
+      : savedAt
+      ? `Saved at ${savedAt}`
+      : 'Saved';
+
+  return (
+    <div className="relative flex items-center gap-2 text-xs text-muted-foreground" title={title}>
+      {icon}
+      {countBadge}
+      {!compact && label}
+    </div>
+  );
+}
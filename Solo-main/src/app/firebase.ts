@@ -31,9 +31,11 @@ const requiredKeys = [
   'VITE_FIREBASE_APP_ID'
 ] as const;
 
+/** False when the Firebase env vars are missing; accounts and Firestore are then unavailable. */
+export const isFirebaseConfigured = requiredKeys.every((key) => !!import.meta.env[key]);
+
 for (const key of requiredKeys) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const val = (import.meta.env as any)[key];
+  const val = import.meta.env[key];
   if (!val) {
     console.warn(
       `[Firebase] Missing env var: ${key}. ` +
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { ActiveFocusTimer, FocusProfile } from '../types';
+import { isBreakPhase, isTimerPaused } from '../utils/focusTimer';
+import { createSoundscapePlayer, DEFAULT_SOUND_VOLUME, SoundscapePlayer } from '../utils/soundscape';
+
+/**
+ * Plays the active profile's soundscape while a focus block runs. Pausing
+ * fades it out quickly; reaching a break fades it out slowly. Returns the
+ * player so callers can unlock audio and play chimes.
+ */
+export function useFocusSoundscape(timer: ActiveFocusTimer | null | undefined, profile: FocusProfile): SoundscapePlayer {
+  const playerRef = useRef<SoundscapePlayer | null>(null);
+  if (!playerRef.current) playerRef.current = createSoundscapePlayer();
+  const player = playerRef.current;
+
+  const focusing = !!timer && timer.phase === 'focus' && !isTimerPaused(timer);
+  const onBreak = !!timer && isBreakPhase(timer.phase);
+  const sound = profile.soundscape ?? 'none';
+  const volume = profile.volume ?? DEFAULT_SOUND_VOLUME;
+
+  useEffect(() => {
+    if (focusing && sound !== 'none') {
+      player.play(sound, volume);
+    } else {
+      player.fadeOut(onBreak ? 4 : 0.5);
+    }
+  }, [player, focusing, onBreak, sound, volume]);
+
+  useEffect(() => () => player.dispose(), [player]);
+
+  return player;
+}
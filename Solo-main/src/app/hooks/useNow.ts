@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time, refreshed every `intervalMs` while `enabled`. Components
+ * derive countdowns from it instead of decrementing their own counters.
+ */
+export function useNow(enabled = true, intervalMs = 1000): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(new Date());
+    const interval = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(interval);
+  }, [enabled, intervalMs]);
+
+  return now;
+}
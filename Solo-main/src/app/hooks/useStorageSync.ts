@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppState } from '../types';
+import { createSyncEngine, decodeState, SyncEngine, SyncState } from '../utils/sync';
+import { logLoadReport, upgradeState } from '../utils/schema';
+import { HistoryWindow, StorageBackend } from '../utils/storageBackend';
+import { createSyncQueueStore } from '../utils/storage';
+
+/**
+ * Keeps the signed-in user's stored document in `backend` in step with
+ * `state`. Changes are debounced and diffed (see `utils/sync.ts`); pending
+ * edits are flushed when the tab is hidden or the user signs out, and
+ * replayed as soon as the device comes back online. The
+ * document is also watched live: its initial contents and every change
+ * made elsewhere are passed to `onRemoteState` for the caller to merge.
+ * `history` tells how much focus history has been loaded (null until the
+ * backend has answered), and `loadFullHistory` pages in the rest and
+ * resolves with the complete stored state.
+ */
+export function useStorageSync(
+  state: AppState,
+  backend: StorageBackend,
+  onRemoteState: (remote: AppState) => void
+): {
+  sync: SyncState;
+  retry: () => void;
+  history: HistoryWindow | null;
+  loadFullHistory: () => Promise<AppState | null>;
+} {
+  const [sync, setSync] = useState<SyncState>({ status: 'idle' });
+  const [history, setHistory] = useState<HistoryWindow | null>(null);
+  // The latest window, for `loadFullHistory` to follow between pages.
+  const historyRef = useRef<HistoryWindow | null>(null);
+  const remoteStateRef = useRef<AppState | null>(null);
+  const engineRef = useRef<SyncEngine | null>(null);
+  const onRemoteStateRef = useRef(onRemoteState);
+  onRemoteStateRef.current = onRemoteState;
+  const userId = state.user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    const engine = createSyncEngine({
+      write: (changes) => backend.write(userId, changes),
+      onStatus: setSync,
+      queueStore: createSyncQueueStore(userId),
+      isOnline: backend.requiresNetwork ? () => navigator.onLine : undefined,
+    });
+    engineRef.current = engine;
+
+    const unsubscribe = backend.subscribe(userId, (doc, nextHistory) => {
+      engine.markRemote(doc, nextHistory.loadedFrom);
+      historyRef.current = nextHistory;
+      setHistory((prev) =>
+        prev &&
+        prev.complete === nextHistory.complete &&
+        prev.loadedFrom === nextHistory.loadedFrom &&
+        prev.loadOlder === nextHistory.loadOlder
+          ? prev
+          : nextHistory
+      );
+      const loaded = upgradeState(decodeState(doc));
+      if (!loaded) return;
+      logLoadReport(loaded.report, backend.kind);
+      remoteStateRef.current = loaded.state;
+      onRemoteStateRef.current(loaded.state);
+    });
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') void engine.flush();
+    };
+    const onPageHide = () => void engine.flush();
+    // Going offline only updates the status; coming back replays the queue.
+    const onConnectivityChange = () => void engine.flush();
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', onPageHide);
+    window.addEventListener('online', onConnectivityChange);
+    window.addEventListener('offline', onConnectivityChange);
+
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', onPageHide);
+      window.removeEventListener('online', onConnectivityChange);
+      window.removeEventListener('offline', onConnectivityChange);
+      void engine.flush().finally(() => engine.dispose());
+      if (engineRef.current === engine) engineRef.current = null;
+      setSync({ status: 'idle' });
+      historyRef.current = null;
+      remoteStateRef.current = null;
+      setHistory(null);
+    };
+  }, [userId, backend]);
+
+  useEffect(() => {
+    if (state.user) engineRef.current?.schedule(state);
+  }, [state]);
+
+  return {
+    sync,
+    retry: () => void engineRef.current?.flush(),
+    history,
+    // Each page is merged through `onRemoteState` before the next is asked
+    // for, so state updates queued after this resolves see all of it.
+    loadFullHistory: async () => {
+      if (!historyRef.current) throw new Error('Your data has not finished loading yet.');
+      while (historyRef.current?.loadOlder) await historyRef.current.loadOlder();
+      return remoteStateRef.current;
+    },
+  };
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { motion } from 'motion/react';
-import { Sword, Mail, Lock, User } from 'lucide-react';
+import { Sword, Mail, Lock, User, HardDrive } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
@@ -8,9 +8,13 @@ import { Card } from '../components/ui/card';
 
 interface AuthPageProps {
   onAuth: (name: string, email: string, password: string, isSignup: boolean) => void;
+  /** Continue without an account; data stays on this device. */
+  onGuest: () => void;
+  /** False when sign-in is not configured, leaving only guest mode. */
+  accountsAvailable?: boolean;
 }
 
-export function AuthPage({ onAuth }: AuthPageProps) {
+export function AuthPage({ onAuth, onGuest, accountsAvailable = true }: AuthPageProps) {
   const [isSignup, setIsSignup] = useState(true);
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
@@ -53,77 +57,94 @@ export function AuthPage({ onAuth }: AuthPageProps) {
           </div>
 
           {/* Form */}
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {isSignup && (
-              <div className="space-y-2">
-                <Label htmlFor="name">Name</Label>
-                <div className="relative">
-                  <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                  <Input
-                    id="name"
-                    type="text"
-                    placeholder="Your hero name"
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    className="pl-10"
-                    required={isSignup}
-                  />
+          {accountsAvailable ? (
+            <>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {isSignup && (
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name</Label>
+                    <div className="relative">
+                      <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="name"
+                        type="text"
+                        placeholder="Your hero name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="pl-10"
+                        required={isSignup}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="hero@levelday.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
                 </div>
-              </div>
-            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="hero@levelday.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="pl-10"
-                  required
-                />
-              </div>
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="••••••••"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="pl-10"
-                  required
-                />
-              </div>
-            </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-purple-500 to-cyan-500 hover:from-purple-600 hover:to-cyan-600 text-white"
+                >
+                  {isSignup ? 'Create Account' : 'Sign In'}
+                </Button>
+              </form>
 
-            <Button
-              type="submit"
-              className="w-full bg-gradient-to-r from-purple-500 to-cyan-500 hover:from-purple-600 hover:to-cyan-600 text-white"
-            >
-              {isSignup ? 'Create Account' : 'Sign In'}
-            </Button>
-          </form>
+              {/* Toggle */}
+              <div className="mt-6 text-center">
+                <button
+                  onClick={() => setIsSignup(!isSignup)}
+                  className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  {isSignup ? 'Already have an account? ' : "Don't have an account? "}
+                  <span className="text-primary font-medium">
+                    {isSignup ? 'Sign In' : 'Sign Up'}
+                  </span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center">
+              Sign-in is not set up for this deployment. You can still play as a guest.
+            </p>
+          )}
 
-          {/* Toggle */}
-          <div className="mt-6 text-center">
-            <button
-              onClick={() => setIsSignup(!isSignup)}
-              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
-            >
-              {isSignup ? 'Already have an account? ' : "Don't have an account? "}
-              <span className="text-primary font-medium">
-                {isSignup ? 'Sign In' : 'Sign Up'}
-              </span>
-            </button>
-          </div>
+          {/* Guest mode */}
+          <Button type="button" variant="outline" onClick={onGuest} className="w-full mt-4 gap-2">
+            <HardDrive className="w-4 h-4" />
+            Continue as Guest
+          </Button>
+          <p className="mt-2 text-xs text-muted-foreground text-center">
+            Guest progress is saved on this device only.
+          </p>
 
           {/* Demo Note */}
           <div className="mt-6 p-3 rounded-lg bg-secondary/30 border border-border/50">
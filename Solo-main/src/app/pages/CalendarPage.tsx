@@ -1,28 +1,44 @@
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { motion } from 'motion/react';
-import { AlertTriangle, CalendarDays, Plus } from 'lucide-react';
+import { AlertTriangle, CalendarDays, Download, Plus, Upload } from 'lucide-react';
 
 import { Quest } from '../types';
 import { QuestCard } from '../components/QuestCard';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import { Calendar } from '../components/ui/calendar';
-import { isoToLocalDateKey, toLocalDateKey } from '../utils/date';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../components/ui/dropdown-menu';
+import { dateKeyToLocalDate, isoToLocalDateKey, toLocalDateKey } from '../utils/date';
 
 interface CalendarPageProps {
   quests: Quest[];
   onQuestClick: (quest: Quest) => void;
   onCompleteQuest: (questId: string) => void;
   onAddQuestForDate: (date: Date) => void;
+  /** Completed focus minutes per quest id. */
+  focusMinutesByQuest?: Record<string, number>;
+  /** Downloads pending quests as .ics, optionally with habit reminders. */
+  onExportIcs: (includeHabits: boolean) => void;
+  /** Reads an .ics file picked by the user; the parent previews and imports it. */
+  onImportIcs: (file: File) => void;
 }
 
-function dateKeyToLocalNoon(key: string): Date {
-  const [y, m, d] = key.split('-').map((n) => Number(n));
-  return new Date(y, (m || 1) - 1, d || 1, 12, 0, 0, 0);
-}
-
-export function CalendarPage({ quests, onQuestClick, onCompleteQuest, onAddQuestForDate }: CalendarPageProps) {
+export function CalendarPage({
+  quests,
+  onQuestClick,
+  onCompleteQuest,
+  onAddQuestForDate,
+  focusMinutesByQuest,
+  onExportIcs,
+  onImportIcs,
+}: CalendarPageProps) {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const todayKey = toLocalDateKey(new Date());
   const selectedKey = toLocalDateKey(selectedDate);
@@ -40,7 +56,7 @@ export function CalendarPage({ quests, onQuestClick, onCompleteQuest, onAddQuest
   }, [quests]);
 
   const daysWithQuests = useMemo(() => {
-    return Array.from(questCountsByDay.keys()).map(dateKeyToLocalNoon);
+    return Array.from(questCountsByDay.keys()).map(dateKeyToLocalDate);
   }, [questCountsByDay]);
 
   const overdueQuests = useMemo(() => {
@@ -84,13 +100,45 @@ export function CalendarPage({ quests, onQuestClick, onCompleteQuest, onAddQuest
           <p className="text-muted-foreground">Lihat quest berdasarkan tanggal, plus yang overdue.</p>
         </div>
 
-        <Button
-          onClick={() => onAddQuestForDate(selectedDate)}
-          className="bg-gradient-to-r from-purple-500 to-cyan-500 hover:from-purple-600 hover:to-cyan-600 text-white gap-2"
-        >
-          <Plus className="w-4 h-4" />
-          Add quest for {selectedKey}
-        </Button>
+        <div className="flex items-center gap-2 flex-wrap">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <Download className="w-4 h-4" />
+                Export .ics
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => onExportIcs(false)}>Pending quests</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onExportIcs(true)}>Pending quests + habit reminders</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button variant="outline" className="gap-2" onClick={() => importInputRef.current?.click()}>
+            <Upload className="w-4 h-4" />
+            Import .ics
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="text/calendar,.ics"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Reset so picking the same file again still fires onChange.
+              e.target.value = '';
+              if (file) onImportIcs(file);
+            }}
+          />
+
+          <Button
+            onClick={() => onAddQuestForDate(selectedDate)}
+            className="bg-gradient-to-r from-purple-500 to-cyan-500 hover:from-purple-600 hover:to-cyan-600 text-white gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add quest for {selectedKey}
+          </Button>
+        </div>
       </motion.div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -143,6 +191,7 @@ export function CalendarPage({ quests, onQuestClick, onCompleteQuest, onAddQuest
                     <QuestCard
                       key={quest.id}
                       quest={quest}
+                      focusMinutes={focusMinutesByQuest?.[quest.id]}
                       onClick={() => onQuestClick(quest)}
                       onComplete={() => onCompleteQuest(quest.id)}
                     />
@@ -171,6 +220,7 @@ export function CalendarPage({ quests, onQuestClick, onCompleteQuest, onAddQuest
                   <QuestCard
                     key={quest.id}
                     quest={quest}
+                    focusMinutes={focusMinutesByQuest?.[quest.id]}
                     onClick={() => onQuestClick(quest)}
                     onComplete={() => onCompleteQuest(quest.id)}
                   />
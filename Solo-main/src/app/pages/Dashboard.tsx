@@ -1,7 +1,8 @@
 import { useMemo } from 'react';
 import { motion } from 'motion/react';
 import { Target, Flame, Timer, Smile, Plus, ChevronRight, Trophy, Sparkles } from 'lucide-react';
-import { User, Quest, Habit } from '../types';
+import { User, Quest, Habit, Badge, BadgeProgress } from '../types';
+import { PeakFocusWindow, formatHourRange } from '../utils/focus';
 import { XPBar } from '../components/XPBar';
 import { LevelBadge } from '../components/LevelBadge';
 import { QuestCard } from '../components/QuestCard';
@@ -27,6 +28,13 @@ interface DashboardProps {
   onMoodChange: (mood: string) => void;
   onHabitClick: (habit: Habit) => void;
   onStartFocus: () => void;
+  /** Locked badge the user is closest to unlocking, if any. */
+  nextBadge?: { badge: Badge; progress: BadgeProgress };
+  onViewRewards: () => void;
+  /** Completed focus minutes per quest id. */
+  focusMinutesByQuest?: Record<string, number>;
+  /** When the user usually focuses best, once there is enough history. */
+  peakFocusWindow?: PeakFocusWindow | null;
 }
 
 export function Dashboard({ 
@@ -43,7 +51,11 @@ export function Dashboard({
   moodToday,
   onMoodChange,
   onHabitClick,
-  onStartFocus 
+  onStartFocus,
+  nextBadge,
+  onViewRewards,
+  focusMinutesByQuest,
+  peakFocusWindow
 }: DashboardProps) {
   const completedQuests = useMemo(
     () => todayQuestsAll.filter((q) => q.status === 'completed').length,
@@ -51,6 +63,7 @@ export function Dashboard({
   );
   const totalQuests = todayQuestsAll.length;
   const completionRate = totalQuests > 0 ? Math.round((completedQuests / totalQuests) * 100) : 0;
+  const hardQuest = todayQuests.find((q) => q.difficulty === 'hard');
 
   const moods = [
     { emoji: '😊', label: 'Great', value: 'great' },
@@ -230,6 +243,7 @@ export function Dashboard({
               <QuestCard
                 key={quest.id}
                 quest={quest}
+                focusMinutes={focusMinutesByQuest?.[quest.id]}
                 onClick={() => onQuestClick(quest)}
                 onComplete={() => onQuestComplete(quest.id)}
               />
@@ -272,6 +286,40 @@ export function Dashboard({
         </div>
       </motion.div>
 
+      {/* Next Badge Widget */}
+      {nextBadge && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.75 }}
+        >
+          <Card className="p-6 bg-gradient-to-br from-yellow-500/10 to-amber-500/10 border-yellow-500/20">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <div className="flex items-center gap-4 flex-1 min-w-0">
+                <div className="w-12 h-12 rounded-xl bg-yellow-500/20 flex items-center justify-center">
+                  <Trophy className="w-6 h-6 text-yellow-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3>Almost there: {nextBadge.badge.name}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {nextBadge.progress.label} • {nextBadge.badge.description}
+                  </p>
+                  <div className="mt-2 w-full h-2 bg-secondary rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-yellow-500 to-amber-500 transition-all"
+                      style={{ width: `${nextBadge.progress.percent}%` }}
+                    />
+                  </div>
+                </div>
+              </div>
+              <Button variant="outline" onClick={onViewRewards}>
+                View Rewards
+              </Button>
+            </div>
+          </Card>
+        </motion.div>
+      )}
+
       {/* Focus Session Widget */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -286,7 +334,13 @@ export function Dashboard({
               </div>
               <div>
                 <h3>Ready to focus?</h3>
-                <p className="text-sm text-muted-foreground">Start a focus session to earn bonus XP</p>
+                <p className="text-sm text-muted-foreground">
+                  {peakFocusWindow
+                    ? `You focus best around ${formatHourRange(peakFocusWindow.startHour, peakFocusWindow.endHour)}. ${
+                        hardQuest ? `Plan "${hardQuest.title}" for then.` : 'Save your hard quests for then.'
+                      }`
+                    : 'Start a focus session to earn bonus XP'}
+                </p>
               </div>
             </div>
             <Button 
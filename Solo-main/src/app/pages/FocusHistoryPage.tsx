@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ArrowLeft, Clock, History, Sparkles, Target, BellOff } from 'lucide-react';
+import { FocusSession, Quest } from '../types';
+import { Button } from '../components/ui/button';
+import { Card } from '../components/ui/card';
+import { Badge } from '../components/ui/badge';
+import { FocusHourHeatmap } from '../components/FocusHourHeatmap';
+import { DayBoundary, dateKeyToLocalDate, isoToDayKey } from '../utils/date';
+import {
+  MIN_SESSIONS_FOR_PEAK,
+  formatFocusMinutes,
+  formatHourRange,
+  getFocusHourGrid,
+  getPeakFocusWindow,
+} from '../utils/focus';
+
+interface FocusHistoryPageProps {
+  quests: Quest[];
+  focusSessions: FocusSession[];
+  dayBoundary?: DayBoundary | null;
+  /** Fetches older sessions from storage. Unset once every session is loaded. */
+  onLoadOlder?: () => Promise<void>;
+  onBack: () => void;
+}
+
+const PAGE_SIZE = 30;
+
+export function FocusHistoryPage({ quests, focusSessions, dayBoundary, onLoadOlder, onBack }: FocusHistoryPageProps) {
+  const [visible, setVisible] = useState(PAGE_SIZE);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  const grid = useMemo(
+    () => getFocusHourGrid(focusSessions, dayBoundary?.timeZone),
+    [focusSessions, dayBoundary?.timeZone]
+  );
+  const completedCount = focusSessions.filter((s) => s.completed).length;
+  const peak = getPeakFocusWindow(grid, completedCount);
+
+  const sorted = useMemo(
+    () => [...focusSessions].sort((a, b) => b.startTime.localeCompare(a.startTime)),
+    [focusSessions]
+  );
+
+  // Group the visible sessions by the day they started in.
+  const groups: { key: string; sessions: FocusSession[] }[] = [];
+  for (const session of sorted.slice(0, visible)) {
+    const key = isoToDayKey(session.startTime, dayBoundary) ?? 'unknown';
+    const last = groups[groups.length - 1];
+    if (last?.key === key) last.sessions.push(session);
+    else groups.push({ key, sessions: [session] });
+  }
+
+  const questById = new Map(quests.map((q) => [q.id, q]));
+
+  const handleLoadOlder = async () => {
+    if (!onLoadOlder) return;
+    setLoadingOlder(true);
+    try {
+      await onLoadOlder();
+      setVisible(visible + PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load older focus sessions:', error);
+      toast.error('Could not load older sessions');
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex items-start justify-between gap-4 flex-wrap"
+      >
+        <div>
+          <h1 className="text-3xl mb-2">Focus History</h1>
+          <p className="text-muted-foreground">Every session you have focused, and when you focus best</p>
+        </div>
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Focus
+        </Button>
+      </motion.div>
+
+      {/* Peak window */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <Card className="p-6 bg-gradient-to-br from-purple-500/10 to-cyan-500/10 border-purple-500/20">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-xl bg-purple-500/20 flex items-center justify-center">
+              <Sparkles className="w-6 h-6 text-purple-400" />
+            </div>
+            {peak ? (
+              <div>
+                <h3>Your peak focus window: {formatHourRange(peak.startHour, peak.endHour)}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {peak.share}% of your focused time ({formatFocusMinutes(peak.minutes)}) falls in these two hours.
+                  Schedule your hardest quests here.
+                </p>
+              </div>
+            ) : (
+              <div>
+                <h3>Finding your peak focus window</h3>
+                <p className="text-sm text-muted-foreground">
+                  Complete {Math.max(0, MIN_SESSIONS_FOR_PEAK - completedCount)} more session
+                  {MIN_SESSIONS_FOR_PEAK - completedCount === 1 ? '' : 's'} to see when you focus best.
+                </p>
+              </div>
+            )}
+          </div>
+        </Card>
+      </motion.div>
+
+      {/* Heatmap */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50">
+          <div className="flex items-center gap-2 mb-6">
+            <Clock className="w-5 h-5 text-cyan-400" />
+            <h3>When You Focus</h3>
+          </div>
+          <FocusHourHeatmap grid={grid} />
+        </Card>
+      </motion.div>
+
+      {/* Timeline */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50">
+          <div className="flex items-center gap-2 mb-6">
+            <History className="w-5 h-5 text-purple-400" />
+            <h3>Sessions</h3>
+          </div>
+
+          {sorted.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No focus sessions yet. Start one to build your history.</p>
+          ) : (
+            <div className="space-y-6">
+              {groups.map((group) => (
+                <div key={group.key} className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    {group.key === 'unknown' ? 'Unknown date' : format(dateKeyToLocalDate(group.key), 'EEEE, MMM dd yyyy')}
+                  </p>
+                  {group.sessions.map((session) => {
+                    const quest = session.questId ? questById.get(session.questId) : undefined;
+                    const subtask = quest?.subtasks.find((st) => st.id === session.subtaskId);
+                    const interruptions = session.interruptions?.length ?? 0;
+                    return (
+                      <div
+                        key={session.id}
+                        className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 flex-wrap"
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium tabular-nums">
+                              {format(new Date(session.startTime), 'HH:mm')}
+                              {session.endTime ? `–${format(new Date(session.endTime), 'HH:mm')}` : ''}
+                            </span>
+                            <span className="text-sm text-muted-foreground">{formatFocusMinutes(session.duration)}</span>
+                          </div>
+                          <div className="flex items-center gap-1 text-sm text-muted-foreground truncate">
+                            <Target className="w-3 h-3 shrink-0" />
+                            {quest ? quest.title : session.questId ? 'Deleted quest' : 'No quest'}
+                            {subtask ? ` · ${subtask.title}` : ''}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {interruptions > 0 && (
+                            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <BellOff className="w-3 h-3" />
+                              {interruptions}
+                            </span>
+                          )}
+                          {session.completed ? (
+                            <Badge variant="secondary" className="text-green-400">
+                              +{session.xpEarned} XP
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-muted-foreground">
+                              Abandoned
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+
+              {visible < sorted.length ? (
+                <div className="text-center">
+                  <Button variant="outline" onClick={() => setVisible(visible + PAGE_SIZE)}>
+                    Show more
+                  </Button>
+                </div>
+              ) : (
+                onLoadOlder && (
+                  <div className="text-center">
+                    <Button variant="outline" disabled={loadingOlder} onClick={handleLoadOlder}>
+                      {loadingOlder ? 'Loading…' : 'Load older sessions'}
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,75 +1,137 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'motion/react';
-import { Play, Pause, RotateCcw, Coffee, Zap, Trophy } from 'lucide-react';
+import { format } from 'date-fns';
+import { Play, Pause, RotateCcw, Coffee, Zap, Trophy, Target, CheckCircle2, Circle, Settings2, BellOff, History, Volume2 } from 'lucide-react';
+import { ActiveFocusTimer, FocusProfile, FocusSession, Quest, FocusTarget, Soundscape } from '../types';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Slider } from '../components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { FocusProfileDialog } from '../components/FocusProfileDialog';
+import { useNow } from '../hooks/useNow';
+import { DayBoundary, getDayKey, isoToDayKey } from '../utils/date';
+import { DISTRACTION_REASONS } from '../utils/focus';
+import { DEFAULT_SOUND_VOLUME, SOUNDSCAPES } from '../utils/soundscape';
+import {
+  getElapsedMs,
+  getFocusXP,
+  getRemainingSeconds,
+  hasTimerStarted,
+  isBreakPhase,
+  isTimerPaused,
+} from '../utils/focusTimer';
 
 interface FocusSessionPageProps {
-  onComplete: (duration: number, xpEarned: number) => void;
+  quests: Quest[];
+  focusSessions: FocusSession[];
+  /** Running focus or break timer, persisted in AppState. */
+  timer: ActiveFocusTimer | null;
+  profiles: FocusProfile[];
+  activeProfile: FocusProfile;
+  onSelectProfile: (profileId: string) => void;
+  onSaveProfiles: (profiles: FocusProfile[]) => void;
+  /** Saves a single profile tweak without a confirmation toast. */
+  onUpdateProfile: (profile: FocusProfile) => void;
+  /** Focus blocks finished since the last long break. */
+  focusCycleCount: number;
+  dayBoundary?: DayBoundary | null;
+  onStart: (target: FocusTarget) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onReset: () => void;
+  /** Logs a distraction against the running focus block. */
+  onLogDistraction: (reason: string, note: string) => void;
+  onViewHistory: () => void;
+  onToggleSubtask: (questId: string, subtaskId: string) => void;
+  onCompleteQuest: (questId: string) => void;
+  /** Quest to offer completing after a focus block on it ended. */
+  promptQuestId?: string;
+  onDismissPrompt: () => void;
 }
 
-export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
-  const [duration, setDuration] = useState(25);
-  const [timeLeft, setTimeLeft] = useState(25 * 60);
-  const [isActive, setIsActive] = useState(false);
-  const [isBreak, setIsBreak] = useState(false);
-  const [completedSessions, setCompletedSessions] = useState(0);
+const NO_SELECTION = 'none';
+
+export function FocusSessionPage({
+  quests,
+  focusSessions,
+  timer,
+  profiles,
+  activeProfile,
+  onSelectProfile,
+  onSaveProfiles,
+  onUpdateProfile,
+  focusCycleCount,
+  dayBoundary,
+  onStart,
+  onPause,
+  onResume,
+  onReset,
+  onLogDistraction,
+  onViewHistory,
+  onToggleSubtask,
+  onCompleteQuest,
+  promptQuestId,
+  onDismissPrompt,
+}: FocusSessionPageProps) {
+  // Selection for the next session; a running timer carries its own.
+  const [questId, setQuestId] = useState<string | undefined>(undefined);
+  const [subtaskId, setSubtaskId] = useState<string | undefined>(undefined);
+  const [profilesOpen, setProfilesOpen] = useState(false);
+  const [distractionOpen, setDistractionOpen] = useState(false);
+  const [distractionNote, setDistractionNote] = useState('');
+  // Dragging only moves the local value; the profile is saved on release.
+  const [volume, setVolume] = useState(activeProfile.volume ?? DEFAULT_SOUND_VOLUME);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-
-    if (isActive && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft(prev => prev - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      handleSessionComplete();
-    }
+    setVolume(activeProfile.volume ?? DEFAULT_SOUND_VOLUME);
+  }, [activeProfile.id, activeProfile.volume]);
 
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isActive, timeLeft]);
-
-  const handleSessionComplete = () => {
-    setIsActive(false);
-    
-    if (!isBreak) {
-      const xp = duration === 25 ? 30 : duration === 45 ? 50 : 100;
-      onComplete(duration, xp);
-      setCompletedSessions(prev => prev + 1);
-      
-      // Auto-start break
-      setIsBreak(true);
-      setTimeLeft(5 * 60);
-    } else {
-      setIsBreak(false);
-      setTimeLeft(duration * 60);
-    }
-  };
+  const isPaused = !!timer && isTimerPaused(timer);
+  const isActive = !!timer && !isPaused;
+  const isBreak = !!timer && isBreakPhase(timer.phase);
+  const isFocusing = !!timer && !isBreak;
+  const now = useNow(isActive);
+  const started = !!timer && hasTimerStarted(timer, now);
+
+  const openQuests = quests.filter((q) => q.status !== 'completed');
+  const targetQuestId = isFocusing ? timer.questId : questId;
+  const targetSubtaskId = isFocusing ? timer.subtaskId : subtaskId;
+  const selectedQuest = quests.find((q) => q.id === targetQuestId);
+  const promptQuest = quests.find((q) => q.id === promptQuestId && q.status !== 'completed');
 
   const toggleTimer = () => {
-    setIsActive(!isActive);
+    if (!timer) {
+      onStart({ questId: selectedQuest?.id, subtaskId: selectedQuest ? subtaskId : undefined });
+    } else if (isPaused) {
+      onResume();
+    } else {
+      onPause();
+    }
   };
 
-  const resetTimer = () => {
-    setIsActive(false);
-    setTimeLeft(duration * 60);
-    setIsBreak(false);
-  };
+  const interruptions = isFocusing ? timer.interruptions ?? [] : [];
 
-  const handleDurationChange = (newDuration: string) => {
-    const dur = parseInt(newDuration);
-    setDuration(dur);
-    setTimeLeft(dur * 60);
-    setIsActive(false);
-    setIsBreak(false);
+  const handleLogDistraction = (reason: string) => {
+    onLogDistraction(reason, distractionNote);
+    setDistractionNote('');
+    setDistractionOpen(false);
   };
 
+  const phaseSeconds = (timer?.duration ?? activeProfile.focusMinutes) * 60;
+  const timeLeft = timer ? getRemainingSeconds(timer, now) : phaseSeconds;
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
-  const progress = ((duration * 60 - timeLeft) / (duration * 60)) * 100;
+  const progress = timer ? (getElapsedMs(timer, now) / (phaseSeconds * 1000)) * 100 : 0;
+  const focusXP = getFocusXP(isFocusing ? timer.duration : activeProfile.focusMinutes);
+
+  // Today's completed sessions, using the user's day boundary.
+  const todayKey = getDayKey(new Date(), dayBoundary);
+  const todaySessions = focusSessions.filter(
+    (s) => s.completed && isoToDayKey(s.startTime, dayBoundary) === todayKey
+  );
+  const todayMinutes = todaySessions.reduce((sum, s) => sum + s.duration, 0);
+  const todayXP = todaySessions.reduce((sum, s) => sum + s.xpEarned, 0);
 
   return (
     <div className="space-y-6">
@@ -81,6 +143,10 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
       >
         <h1 className="text-3xl mb-2">Focus Session</h1>
         <p className="text-muted-foreground">Stay focused and earn bonus XP</p>
+        <Button variant="ghost" size="sm" className="mt-2 gap-1" onClick={onViewHistory}>
+          <History className="w-4 h-4" />
+          View history
+        </Button>
       </motion.div>
 
       {/* Timer Card */}
@@ -92,11 +158,13 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
       >
         <Card className="p-12 bg-gradient-to-br from-purple-500/10 to-cyan-500/10 border-purple-500/20 text-center">
           {/* Status */}
-          <div className="flex items-center justify-center gap-2 mb-6">
+          <div className="flex items-center justify-center gap-2 mb-2">
             {isBreak ? (
               <>
                 <Coffee className="w-5 h-5 text-cyan-400" />
-                <span className="text-sm text-cyan-400 font-medium">Break Time</span>
+                <span className="text-sm text-cyan-400 font-medium">
+                  {timer?.phase === 'longBreak' ? 'Long Break' : 'Break Time'}
+                </span>
               </>
             ) : (
               <>
@@ -105,6 +173,10 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
               </>
             )}
           </div>
+          <p className="text-xs text-muted-foreground mb-6">
+            {activeProfile.name} · Session {Math.min(focusCycleCount + 1, activeProfile.longBreakEvery)} of{' '}
+            {activeProfile.longBreakEvery} before a long break
+          </p>
 
           {/* Timer Display */}
           <motion.div
@@ -128,19 +200,24 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
             </div>
           </div>
 
-          {/* Duration Selector (only when not active) */}
-          {!isActive && !isBreak && (
-            <div className="mb-8 max-w-xs mx-auto">
-              <Select value={duration.toString()} onValueChange={handleDurationChange}>
+          {/* Profile Selector (only before a session starts) */}
+          {!timer && (
+            <div className="mb-8 max-w-xs mx-auto flex gap-2">
+              <Select value={activeProfile.id} onValueChange={onSelectProfile}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="25">25 minutes (Pomodoro)</SelectItem>
-                  <SelectItem value="45">45 minutes (Deep Work)</SelectItem>
-                  <SelectItem value="90">90 minutes (Flow State)</SelectItem>
+                  {profiles.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.focusMinutes} minutes ({p.name})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <Button variant="outline" size="icon" onClick={() => setProfilesOpen(true)} aria-label="Manage focus profiles">
+                <Settings2 className="w-4 h-4" />
+              </Button>
             </div>
           )}
 
@@ -159,7 +236,7 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
               ) : (
                 <>
                   <Play className="w-5 h-5 mr-2" />
-                  Start
+                  {started ? 'Resume' : isBreak ? 'Start Break' : 'Start'}
                 </>
               )}
             </Button>
@@ -167,20 +244,59 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
             <Button
               size="lg"
               variant="outline"
-              onClick={resetTimer}
+              onClick={onReset}
+              disabled={!timer}
             >
               <RotateCcw className="w-5 h-5 mr-2" />
               Reset
             </Button>
           </div>
 
+          {/* Distractions */}
+          {isFocusing && started && (
+            <div className="mt-6 space-y-3">
+              <Button variant="ghost" size="sm" onClick={() => setDistractionOpen(!distractionOpen)}>
+                <BellOff className="w-4 h-4 mr-2" />
+                I got distracted
+              </Button>
+
+              {distractionOpen && (
+                <div className="max-w-md mx-auto space-y-3 text-left">
+                  <Input
+                    value={distractionNote}
+                    onChange={(e) => setDistractionNote(e.target.value)}
+                    placeholder="What pulled you away? (optional)"
+                  />
+                  <div className="flex gap-2 flex-wrap justify-center">
+                    {DISTRACTION_REASONS.map((reason) => (
+                      <Button key={reason} size="sm" variant="outline" onClick={() => handleLogDistraction(reason)}>
+                        {reason}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {interruptions.length > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {interruptions.map((i) => (
+                    <li key={i.at}>
+                      {format(new Date(i.at), 'HH:mm')} · {i.reason}
+                      {i.note ? ` — ${i.note}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* XP Info */}
           {!isBreak && (
             <div className="mt-8 flex items-center justify-center gap-2 text-sm text-muted-foreground">
               <Trophy className="w-4 h-4 text-purple-400" />
               <span>
                 Complete to earn <span className="text-purple-400 font-medium">
-                  +{duration === 25 ? 30 : duration === 45 ? 50 : 100} XP
+                  +{focusXP} XP
                 </span>
               </span>
             </div>
@@ -188,6 +304,158 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
         </Card>
       </motion.div>
 
+      {/* Working on */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+        className="max-w-2xl mx-auto"
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 space-y-4">
+          <div className="flex items-center gap-2">
+            <Target className="w-5 h-5 text-primary" />
+            <h3>Working On</h3>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Select
+              value={selectedQuest?.id ?? NO_SELECTION}
+              disabled={isFocusing}
+              onValueChange={(v) => {
+                setQuestId(v === NO_SELECTION ? undefined : v);
+                setSubtaskId(undefined);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SELECTION}>No quest</SelectItem>
+                {openQuests.map((q) => (
+                  <SelectItem key={q.id} value={q.id}>
+                    {q.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {selectedQuest && selectedQuest.subtasks.length > 0 && (
+              <Select
+                value={targetSubtaskId ?? NO_SELECTION}
+                disabled={isFocusing}
+                onValueChange={(v) => setSubtaskId(v === NO_SELECTION ? undefined : v)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SELECTION}>Whole quest</SelectItem>
+                  {selectedQuest.subtasks.map((st) => (
+                    <SelectItem key={st.id} value={st.id}>
+                      {st.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {selectedQuest && selectedQuest.subtasks.length > 0 && (
+            <div className="space-y-2">
+              {selectedQuest.subtasks.map((st) => (
+                <button
+                  key={st.id}
+                  type="button"
+                  onClick={() => onToggleSubtask(selectedQuest.id, st.id)}
+                  className={`w-full flex items-center gap-2 p-2 rounded-lg text-left transition-all ${
+                    st.id === targetSubtaskId ? 'bg-primary/10 border border-primary/30' : 'bg-secondary/50'
+                  }`}
+                >
+                  {st.completed ? (
+                    <CheckCircle2 className="w-5 h-5 text-green-400" />
+                  ) : (
+                    <Circle className="w-5 h-5 text-muted-foreground" />
+                  )}
+                  <span className={st.completed ? 'line-through text-muted-foreground' : ''}>{st.title}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {promptQuest && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-green-500/30 bg-green-500/10 flex-wrap">
+              <span className="text-sm">
+                Session done! Is <span className="font-medium">{promptQuest.title}</span> finished?
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={onDismissPrompt}>
+                  Not yet
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    onCompleteQuest(promptQuest.id);
+                    onDismissPrompt();
+                    setQuestId(undefined);
+                    setSubtaskId(undefined);
+                  }}
+                  className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
+                >
+                  Complete Quest
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </motion.div>
+
+      {/* Soundscape */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.18 }}
+        className="max-w-2xl mx-auto"
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 space-y-4">
+          <div className="flex items-center gap-2">
+            <Volume2 className="w-5 h-5 text-cyan-400" />
+            <h3>Soundscape</h3>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-center">
+            <Select
+              value={activeProfile.soundscape ?? 'none'}
+              onValueChange={(v) => onUpdateProfile({ ...activeProfile, soundscape: v as Soundscape })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOUNDSCAPES.map((s) => (
+                  <SelectItem key={s.value} value={s.value}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-3">
+              <Slider
+                min={0}
+                max={100}
+                step={5}
+                value={[volume]}
+                onValueChange={([v]) => setVolume(v)}
+                onValueCommit={([v]) => onUpdateProfile({ ...activeProfile, volume: v })}
+                aria-label="Soundscape volume"
+              />
+              <span className="text-sm text-muted-foreground w-10 text-right">{volume}%</span>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Plays during focus blocks and fades out when a break starts. Generated on your device, works offline.
+          </p>
+        </Card>
+      </motion.div>
+
       {/* Stats */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -196,19 +464,17 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
         className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-2xl mx-auto"
       >
         <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 text-center">
-          <div className="text-3xl font-bold text-purple-400 mb-2">{completedSessions}</div>
+          <div className="text-3xl font-bold text-purple-400 mb-2">{todaySessions.length}</div>
           <p className="text-sm text-muted-foreground">Sessions Today</p>
         </Card>
 
         <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 text-center">
-          <div className="text-3xl font-bold text-cyan-400 mb-2">{completedSessions * duration}</div>
+          <div className="text-3xl font-bold text-cyan-400 mb-2">{todayMinutes}</div>
           <p className="text-sm text-muted-foreground">Minutes Focused</p>
         </Card>
 
         <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 text-center">
-          <div className="text-3xl font-bold text-green-400 mb-2">
-            {completedSessions * (duration === 25 ? 30 : duration === 45 ? 50 : 100)}
-          </div>
+          <div className="text-3xl font-bold text-green-400 mb-2">{todayXP}</div>
           <p className="text-sm text-muted-foreground">XP Earned</p>
         </Card>
       </motion.div>
@@ -238,6 +504,13 @@ export function FocusSessionPage({ onComplete }: FocusSessionPageProps) {
           </ul>
         </Card>
       </motion.div>
+
+      <FocusProfileDialog
+        open={profilesOpen}
+        onClose={() => setProfilesOpen(false)}
+        profiles={profiles}
+        onSave={onSaveProfiles}
+      />
     </div>
   );
 }
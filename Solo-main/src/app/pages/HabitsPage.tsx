@@ -1,8 +1,11 @@
-import { useState } from 'react';
+import { useMemo } from 'react';
 import { motion } from 'motion/react';
-import { Plus, Flame } from 'lucide-react';
+import { Plus, Flame, Archive } from 'lucide-react';
 import { Habit } from '../types';
 import { HabitCard } from '../components/HabitCard';
+import { HabitHeatmap } from '../components/HabitHeatmap';
+import { getHabitDayCounts } from '../utils/heatmap';
+import { DayBoundary, getDayKey, isoToDayKey } from '../utils/date';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 
@@ -11,15 +14,26 @@ interface HabitsPageProps {
   onAddHabit: () => void;
   onHabitClick: (habit: Habit) => void;
   onToggleHabit: (habitId: string) => void;
+  dayBoundary?: DayBoundary | null;
 }
 
-export function HabitsPage({ habits, onAddHabit, onHabitClick, onToggleHabit }: HabitsPageProps) {
-  const todayStr = new Date().toISOString().split('T')[0];
-  
+export function HabitsPage({
+  habits: allHabits,
+  onAddHabit,
+  onHabitClick,
+  onToggleHabit,
+  dayBoundary,
+}: HabitsPageProps) {
+  const habits = allHabits.filter((h) => !h.archived);
+  const archivedHabits = allHabits.filter((h) => h.archived);
+  const todayKey = getDayKey(new Date(), dayBoundary);
+
   const isCompletedToday = (habit: Habit) => {
-    return habit.completedDates.some(date => date.startsWith(todayStr));
+    return habit.completedDates.some((date) => isoToDayKey(date, dayBoundary) === todayKey);
   };
 
+  const dayCounts = useMemo(() => getHabitDayCounts(habits, dayBoundary), [habits, dayBoundary]);
+
   const totalStreakDays = habits.reduce((sum, h) => sum + h.currentStreak, 0);
   const completedToday = habits.filter(isCompletedToday).length;
 
@@ -135,6 +149,44 @@ export function HabitsPage({ habits, onAddHabit, onHabitClick, onToggleHabit }:
           </Card>
         )}
       </motion.div>
+
+      {/* Activity Heatmap */}
+      {habits.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.45 }}
+        >
+          <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50">
+            <h3 className="mb-4">Activity</h3>
+            <HabitHeatmap counts={dayCounts} unitLabel="habits done" todayKey={todayKey} />
+          </Card>
+        </motion.div>
+      )}
+
+      {/* Archived */}
+      {archivedHabits.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5 }}
+        >
+          <div className="flex items-center gap-2 mb-4">
+            <Archive className="w-5 h-5 text-muted-foreground" />
+            <h2>Archived ({archivedHabits.length})</h2>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 opacity-60">
+            {archivedHabits.map((habit) => (
+              <HabitCard
+                key={habit.id}
+                habit={habit}
+                onClick={() => onHabitClick(habit)}
+                isCompletedToday={isCompletedToday(habit)}
+              />
+            ))}
+          </div>
+        </motion.div>
+      )}
     </div>
   );
 }
@@ -15,9 +15,18 @@ interface QuestsPageProps {
   onAddQuestAI: () => void;
   onQuestClick: (quest: Quest) => void;
   onCompleteQuest: (questId: string) => void;
+  /** Completed focus minutes per quest id. */
+  focusMinutesByQuest?: Record<string, number>;
 }
 
-export function QuestsPage({ quests, onAddQuest, onAddQuestAI, onQuestClick, onCompleteQuest }: QuestsPageProps) {
+export function QuestsPage({
+  quests,
+  onAddQuest,
+  onAddQuestAI,
+  onQuestClick,
+  onCompleteQuest,
+  focusMinutesByQuest,
+}: QuestsPageProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState<QuestDifficulty | 'all'>('all');
   const [activeTab, setActiveTab] = useState<'today' | 'upcoming' | 'completed'>('today');
@@ -173,6 +182,7 @@ export function QuestsPage({ quests, onAddQuest, onAddQuestAI, onQuestClick, onC
                 <QuestCard
                   key={quest.id}
                   quest={quest}
+                  focusMinutes={focusMinutesByQuest?.[quest.id]}
                   onClick={() => onQuestClick(quest)}
                   onComplete={() => onCompleteQuest(quest.id)}
                 />
@@ -196,6 +206,7 @@ export function QuestsPage({ quests, onAddQuest, onAddQuestAI, onQuestClick, onC
                 <QuestCard
                   key={quest.id}
                   quest={quest}
+                  focusMinutes={focusMinutesByQuest?.[quest.id]}
                   onClick={() => onQuestClick(quest)}
                   onComplete={() => onCompleteQuest(quest.id)}
                 />
@@ -215,6 +226,7 @@ export function QuestsPage({ quests, onAddQuest, onAddQuestAI, onQuestClick, onC
                 <QuestCard
                   key={quest.id}
                   quest={quest}
+                  focusMinutes={focusMinutesByQuest?.[quest.id]}
                   onClick={() => onQuestClick(quest)}
                 />
               ))
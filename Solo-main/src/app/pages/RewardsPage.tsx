@@ -1,16 +1,20 @@
 import { motion } from 'motion/react';
-import { Trophy, Gift, Star } from 'lucide-react';
-import { Badge as BadgeType } from '../types';
+import { Trophy, Gift, Star, Target } from 'lucide-react';
+import { Badge as BadgeType, BadgeProgress } from '../types';
 import { BadgeCard } from '../components/BadgeCard';
 import { Card } from '../components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { Badge } from '../components/ui/badge';
+import { getClosestBadges } from '../utils/badges';
+import { getRarityColor } from '../utils/xp';
 
 interface RewardsPageProps {
   badges: BadgeType[];
+  badgeProgress: Record<string, BadgeProgress>;
   onBadgeClick: (badge: BadgeType) => void;
 }
 
-export function RewardsPage({ badges, onBadgeClick }: RewardsPageProps) {
+export function RewardsPage({ badges, badgeProgress, onBadgeClick }: RewardsPageProps) {
   const unlockedBadges = badges.filter(b => !b.isLocked);
   const lockedBadges = badges.filter(b => b.isLocked);
 
@@ -24,6 +28,8 @@ export function RewardsPage({ badges, onBadgeClick }: RewardsPageProps) {
     return rarityOrder.indexOf(b.rarity) - rarityOrder.indexOf(a.rarity);
   });
 
+  const closestBadges = getClosestBadges(badges, badgeProgress);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -39,6 +45,46 @@ export function RewardsPage({ badges, onBadgeClick }: RewardsPageProps) {
         <p className="text-muted-foreground">Collect badges and unlock rewards</p>
       </motion.div>
 
+      {/* Closest to Unlocking */}
+      {closestBadges.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.05 }}
+          className="max-w-3xl mx-auto"
+        >
+          <Card className="p-6 bg-gradient-to-br from-purple-500/10 to-cyan-500/10 border-purple-500/20">
+            <div className="flex items-center gap-2 mb-4">
+              <Target className="w-5 h-5 text-cyan-400" />
+              <h3>Closest to Unlocking</h3>
+            </div>
+            <div className="space-y-4">
+              {closestBadges.map(({ badge, progress }) => (
+                <button
+                  key={badge.id}
+                  onClick={() => onBadgeClick(badge)}
+                  className="w-full text-left space-y-2"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium truncate">{badge.name}</span>
+                      <Badge className={getRarityColor(badge.rarity)}>{badge.rarity}</Badge>
+                    </div>
+                    <span className="text-sm text-cyan-400 shrink-0">{progress.label}</span>
+                  </div>
+                  <div className="w-full h-2 bg-secondary rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-purple-500 to-cyan-500 transition-all"
+                      style={{ width: `${progress.percent}%` }}
+                    />
+                  </div>
+                </button>
+              ))}
+            </div>
+          </Card>
+        </motion.div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-3xl mx-auto">
         <motion.div
@@ -122,6 +168,7 @@ export function RewardsPage({ badges, onBadgeClick }: RewardsPageProps) {
                 <BadgeCard
                   key={badge.id}
                   badge={badge}
+                  progress={badgeProgress[badge.id]}
                   onClick={() => onBadgeClick(badge)}
                 />
               ))}
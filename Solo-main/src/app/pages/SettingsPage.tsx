@@ -1,5 +1,6 @@
+import { useRef } from 'react';
 import { motion } from 'motion/react';
-import { User as UserIcon, Bell, Palette, LogOut, Trash2 } from 'lucide-react';
+import { User as UserIcon, Bell, Palette, LogOut, Trash2, Flame, Clock, Download, Upload, FileSpreadsheet } from 'lucide-react';
 import { User } from '../types';
 import { Card } from '../components/ui/card';
 import { Button } from '../components/ui/button';
@@ -7,14 +8,77 @@ import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Switch } from '../components/ui/switch';
 import { Separator } from '../components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '../components/ui/alert-dialog';
+import { getCheckInGraceDays } from '../utils/gameEngine';
+import { clampDayStartHour, getDeviceTimeZone } from '../utils/date';
 
 interface SettingsPageProps {
   user: User;
   onLogout: () => void;
   onUpdateProfile: (name: string, email: string) => void;
+  onUpdateSettings: (settings: Partial<User>) => void;
+  /** Downloads a JSON backup of everything the account holds. */
+  onExportData: () => void;
+  /** Opens the CSV export dialog. */
+  onExportCsv: () => void;
+  /** Reads a backup file picked by the user; the parent previews and restores it. */
+  onImportData: (file: File) => void;
+  /** Deletes quests, habits, sessions, badges and moods but keeps the account. */
+  onClearData: () => void;
 }
 
-export function SettingsPage({ user, onLogout, onUpdateProfile }: SettingsPageProps) {
+const GRACE_DAY_OPTIONS = [0, 1, 2, 3, 7];
+
+const DEVICE_TIMEZONE = 'device';
+
+const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Jakarta',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+const DAY_START_HOURS = Array.from({ length: 7 }).map((_, h) => h);
+
+export function SettingsPage({
+  user,
+  onLogout,
+  onUpdateProfile,
+  onUpdateSettings,
+  onExportData,
+  onExportCsv,
+  onImportData,
+  onClearData,
+}: SettingsPageProps) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const deviceTimeZone = getDeviceTimeZone();
+  const timeZones = Array.from(
+    new Set([...(user.timeZone ? [user.timeZone] : []), ...COMMON_TIMEZONES])
+  );
+
   return (
     <div className="space-y-6 max-w-4xl">
       {/* Header */}
@@ -84,6 +148,111 @@ export function SettingsPage({ user, onLogout, onUpdateProfile }: SettingsPagePr
         </Card>
       </motion.div>
 
+      {/* Day & Time */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50">
+          <div className="flex items-center gap-3 mb-6">
+            <Clock className="w-5 h-5 text-primary" />
+            <h3>Day &amp; Time</h3>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Timezone</p>
+                <p className="text-sm text-muted-foreground">
+                  Decides which day habits, moods and daily resets belong to
+                </p>
+              </div>
+              <Select
+                value={user.timeZone ?? DEVICE_TIMEZONE}
+                onValueChange={(v) => onUpdateSettings({ timeZone: v === DEVICE_TIMEZONE ? undefined : v })}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEVICE_TIMEZONE}>Device ({deviceTimeZone})</SelectItem>
+                  {timeZones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Day starts at</p>
+                <p className="text-sm text-muted-foreground">
+                  Night owl? Check-ins before this hour count for the previous day
+                </p>
+              </div>
+              <Select
+                value={String(clampDayStartHour(user.dayStartHour))}
+                onValueChange={(v) => onUpdateSettings({ dayStartHour: Number(v) })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAY_START_HOURS.map((hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {hour === 0 ? 'Midnight' : `${String(hour).padStart(2, '0')}:00`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </Card>
+      </motion.div>
+
+      {/* Habits */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50">
+          <div className="flex items-center gap-3 mb-6">
+            <Flame className="w-5 h-5 text-primary" />
+            <h3>Habits</h3>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">Check-in grace window</p>
+              <p className="text-sm text-muted-foreground">
+                How many past days you can still log or remove habit completions
+              </p>
+            </div>
+            <Select
+              value={String(getCheckInGraceDays(user))}
+              onValueChange={(v) => onUpdateSettings({ checkInGraceDays: Number(v) })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRACE_DAY_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 0 ? 'Today only' : `${days} day${days > 1 ? 's' : ''}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+      </motion.div>
+
       {/* Notifications */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -178,14 +347,56 @@ export function SettingsPage({ user, onLogout, onUpdateProfile }: SettingsPagePr
           <h3 className="mb-6">Data & Privacy</h3>
 
           <div className="space-y-4">
-            <Button variant="outline" className="w-full justify-start">
+            <Button variant="outline" className="w-full justify-start" onClick={onExportData}>
+              <Download className="w-4 h-4 mr-2" />
               Export Data
             </Button>
 
-            <Button variant="outline" className="w-full justify-start text-destructive border-destructive/50 hover:bg-destructive/10">
-              <Trash2 className="w-4 h-4 mr-2" />
-              Clear All Data
+            <Button variant="outline" className="w-full justify-start" onClick={onExportCsv}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Export CSV for Spreadsheets
             </Button>
+
+            <Button variant="outline" className="w-full justify-start" onClick={() => importInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Backup
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                // Reset so picking the same file again still fires onChange.
+                e.target.value = '';
+                if (file) onImportData(file);
+              }}
+            />
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="w-full justify-start text-destructive border-destructive/50 hover:bg-destructive/10">
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear All Data
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear all data?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Your quests, habits, focus history, badges, moods and level progress will be deleted on every
+                    device. Your account and settings are kept. Export a backup first if you may want them back.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onClearData} className="bg-destructive text-white hover:bg-destructive/90">
+                    Clear All Data
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
           </div>
         </Card>
       </motion.div>
@@ -1,59 +1,80 @@
 import { motion } from 'motion/react';
-import { TrendingUp, Target, Flame, Clock, Award } from 'lucide-react';
+import { TrendingUp, Target, Flame, Clock, Award, BellOff, FileSpreadsheet } from 'lucide-react';
 import { Card } from '../components/ui/card';
+import { Button } from '../components/ui/button';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { format, subDays } from 'date-fns';
-import { FocusSession, Habit, Quest } from '../types';
-import { isoToLocalDateKey, toLocalDateKey } from '../utils/date';
+import { format } from 'date-fns';
+import { FocusSession, FocusTotals, Habit, Quest } from '../types';
+import { DayBoundary, addDaysToDateKey, dateKeyToLocalDate, getDayKey, isoToDayKey } from '../utils/date';
+import { getHabitDayCounts } from '../utils/heatmap';
+import { getQuestCompletions } from '../utils/recurrence';
+import { getFocusQuality } from '../utils/focus';
+import { getHabitCompletionXP } from '../utils/xp';
+import { HabitHeatmap } from '../components/HabitHeatmap';
 
 interface StatsPageProps {
   quests: Quest[];
   habits: Habit[];
   focusSessions: FocusSession[];
+  /** Lifetime focus totals; `focusSessions` may hold recent history only. */
+  focusTotals: FocusTotals;
   moodByDate?: Record<string, string>;
+  dayBoundary?: DayBoundary | null;
+  /** Opens the CSV export dialog. */
+  onExportCsv: () => void;
 }
 
-export function StatsPage({ quests, habits, focusSessions, moodByDate }: StatsPageProps) {
+export function StatsPage({
+  quests,
+  habits,
+  focusSessions,
+  focusTotals,
+  moodByDate,
+  dayBoundary,
+  onExportCsv,
+}: StatsPageProps) {
   const totalQuests = quests.length;
   const completedQuests = quests.filter((q) => q.status === 'completed').length;
   const totalHabits = habits.length;
-  const totalFocusTime = focusSessions.reduce((sum, s) => sum + (s.completed ? s.duration : 0), 0);
+  const totalFocusTime = focusTotals.minutes;
 
   const completionRate = totalQuests > 0 ? Math.round((completedQuests / totalQuests) * 100) : 0;
 
-  // Build last 7 days buckets in local time.
+  const todayKey = getDayKey(new Date(), dayBoundary);
+
+  // Build last 7 days buckets using the user's day boundary.
   const last7Days = Array.from({ length: 7 }).map((_, i) => {
-    const date = subDays(new Date(), 6 - i);
-    const key = toLocalDateKey(date);
+    const key = addDaysToDateKey(todayKey, i - 6);
     return {
       key,
-      day: format(date, 'EEE'),
+      day: format(dateKeyToLocalDate(key), 'EEE'),
       xp: 0,
       tasks: 0,
     };
   });
 
   const bucketByKey = new Map(last7Days.map((d) => [d.key, d]));
+  // Includes past occurrences of recurring quests.
+  const questCompletions = getQuestCompletions(quests);
 
   // Quests
-  for (const q of quests) {
-    if (q.status !== 'completed' || !q.completedAt) continue;
-    const key = isoToLocalDateKey(q.completedAt);
+  for (const c of questCompletions) {
+    const key = isoToDayKey(c.completedAt, dayBoundary);
     if (!key) continue;
     const bucket = bucketByKey.get(key);
     if (!bucket) continue;
-    bucket.xp += q.xpReward;
+    bucket.xp += c.xpEarned;
     bucket.tasks += 1;
   }
 
   // Habits
   for (const h of habits) {
     for (const d of h.completedDates) {
-      const key = isoToLocalDateKey(d);
+      const key = isoToDayKey(d, dayBoundary);
       if (!key) continue;
       const bucket = bucketByKey.get(key);
       if (!bucket) continue;
-      bucket.xp += h.xpPerCompletion;
+      bucket.xp += getHabitCompletionXP(h, d);
       bucket.tasks += 1;
     }
   }
@@ -61,7 +82,7 @@ export function StatsPage({ quests, habits, focusSessions, moodByDate }: StatsPa
   // Focus sessions
   for (const s of focusSessions) {
     if (!s.completed) continue;
-    const key = isoToLocalDateKey(s.startTime);
+    const key = isoToDayKey(s.startTime, dayBoundary);
     if (!key) continue;
     const bucket = bucketByKey.get(key);
     if (!bucket) continue;
@@ -75,28 +96,24 @@ export function StatsPage({ quests, habits, focusSessions, moodByDate }: StatsPa
   const weeklyTotalXP = last7Days.reduce((sum, d) => sum + d.xp, 0);
 
   const prevWeekKeys = new Set(
-    Array.from({ length: 7 }).map((_, i) => {
-      const date = subDays(new Date(), 13 - i);
-      return toLocalDateKey(date);
-    })
+    Array.from({ length: 7 }).map((_, i) => addDaysToDateKey(todayKey, i - 13))
   );
 
   const prevWeekXP = (() => {
     let xp = 0;
-    for (const q of quests) {
-      if (q.status !== 'completed' || !q.completedAt) continue;
-      const key = isoToLocalDateKey(q.completedAt);
-      if (key && prevWeekKeys.has(key)) xp += q.xpReward;
+    for (const c of questCompletions) {
+      const key = isoToDayKey(c.completedAt, dayBoundary);
+      if (key && prevWeekKeys.has(key)) xp += c.xpEarned;
     }
     for (const h of habits) {
       for (const d of h.completedDates) {
-        const key = isoToLocalDateKey(d);
-        if (key && prevWeekKeys.has(key)) xp += h.xpPerCompletion;
+        const key = isoToDayKey(d, dayBoundary);
+        if (key && prevWeekKeys.has(key)) xp += getHabitCompletionXP(h, d);
       }
     }
     for (const s of focusSessions) {
       if (!s.completed) continue;
-      const key = isoToLocalDateKey(s.startTime);
+      const key = isoToDayKey(s.startTime, dayBoundary);
       if (key && prevWeekKeys.has(key)) xp += s.xpEarned;
     }
     return xp;
@@ -122,21 +139,31 @@ export function StatsPage({ quests, habits, focusSessions, moodByDate }: StatsPa
     .slice(0, 6)
     .map(([name, value], idx) => ({ name, value, color: palette[idx % palette.length] }));
 
-  const todayKey = toLocalDateKey(new Date());
+  const habitDayCounts = getHabitDayCounts(habits, dayBoundary);
+
   const moodToday = moodByDate?.[todayKey];
 
+  const focusQuality = getFocusQuality(focusSessions);
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <motion.div
         initial={{ opacity: 0, y: -20 }}
         animate={{ opacity: 1, y: 0 }}
+        className="flex items-start justify-between gap-4 flex-wrap"
       >
-        <h1 className="text-3xl mb-2">Statistics</h1>
-        <p className="text-muted-foreground">Track your progress and insights</p>
-        {moodToday && (
-          <p className="text-sm text-muted-foreground mt-1">Mood today: {moodToday}</p>
-        )}
+        <div>
+          <h1 className="text-3xl mb-2">Statistics</h1>
+          <p className="text-muted-foreground">Track your progress and insights</p>
+          {moodToday && (
+            <p className="text-sm text-muted-foreground mt-1">Mood today: {moodToday}</p>
+          )}
+        </div>
+        <Button variant="outline" onClick={onExportCsv}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
       </motion.div>
 
       {/* Overview Stats */}
@@ -366,6 +393,68 @@ export function StatsPage({ quests, habits, focusSessions, moodByDate }: StatsPa
           </div>
         </Card>
       </motion.div>
+
+      {/* Focus Quality */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.75 }}
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50">
+          <div className="flex items-center gap-2 mb-6">
+            <BellOff className="w-5 h-5 text-cyan-400" />
+            <h3>Focus Quality</h3>
+            <span className="text-xs text-muted-foreground">· recent sessions</span>
+          </div>
+          {focusQuality.total === 0 ? (
+            <p className="text-sm text-muted-foreground">No focus sessions recorded yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <p className="text-2xl font-bold text-purple-400">{focusQuality.completionRate}%</p>
+                <p className="text-sm text-muted-foreground">Sessions completed</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {focusQuality.completed} done · {focusQuality.abandoned} abandoned
+                </p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-cyan-400">{focusQuality.averageInterruptions}</p>
+                <p className="text-sm text-muted-foreground">Distractions per session</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground mb-2">Top distractions</p>
+                {focusQuality.topReasons.length === 0 ? (
+                  <p className="text-sm">None logged</p>
+                ) : (
+                  <div className="space-y-1">
+                    {focusQuality.topReasons.map(({ reason, count }) => (
+                      <div key={reason} className="flex items-center justify-between text-sm">
+                        <span>{reason}</span>
+                        <span className="text-muted-foreground">{count}×</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </Card>
+      </motion.div>
+
+      {/* Habit Heatmap */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.8 }}
+      >
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50">
+          <div className="flex items-center gap-2 mb-6">
+            <Flame className="w-5 h-5 text-orange-400" />
+            <h3>Habit Consistency</h3>
+          </div>
+          <HabitHeatmap counts={habitDayCounts} unitLabel="habits done" todayKey={todayKey} />
+        </Card>
+      </motion.div>
     </div>
   );
 }
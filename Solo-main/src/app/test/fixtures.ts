@@ -0,0 +1,74 @@
+import { AppState, Badge, BadgeRule, FocusSession, Habit, Quest, User } from '../types';
+
+/**
+ * Builders for unit tests. Each returns a valid entity with neutral
+ * defaults; pass only the fields a test is about.
+ */
+
+export const makeUser = (extra: Partial<User> = {}): User => ({
+  id: 'user-1',
+  name: 'Ari',
+  email: 'ari@example.com',
+  userClass: 'warrior',
+  level: 1,
+  xp: 0,
+  xpToNextLevel: 100,
+  totalXP: 0,
+  joinedDate: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+export const makeQuest = (id: string, title: string, extra: Partial<Quest> = {}): Quest => ({
+  id,
+  title,
+  difficulty: 'normal',
+  status: 'pending',
+  xpReward: 25,
+  tags: [],
+  subtasks: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+export const makeHabit = (id: string, extra: Partial<Habit> = {}): Habit => ({
+  id,
+  title: 'Read',
+  frequency: 'daily',
+  currentStreak: 0,
+  longestStreak: 0,
+  xpPerCompletion: 10,
+  completedDates: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+export const makeSession = (id: string, startTime: string, extra: Partial<FocusSession> = {}): FocusSession => ({
+  id,
+  startTime,
+  duration: 25,
+  completed: true,
+  xpEarned: 10,
+  ...extra,
+});
+
+export const makeBadge = (id: string, rule?: BadgeRule, extra: Partial<Badge> = {}): Badge => ({
+  id,
+  name: 'Badge',
+  description: '',
+  rarity: 'common',
+  iconType: 'trophy',
+  isLocked: true,
+  rule,
+  ...extra,
+});
+
+export const makeState = (extra: Partial<AppState> = {}): AppState => ({
+  user: makeUser(),
+  quests: [],
+  habits: [],
+  focusSessions: [],
+  badges: [],
+  currentPage: 'dashboard',
+  isOnboarded: true,
+  ...extra,
+});
@@ -6,7 +6,24 @@ export type QuestStatus = 'pending' | 'in_progress' | 'completed';
 
 export type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
 
-export interface User {
+/**
+ * Sync metadata. `updatedAt` is stamped whenever an entity changes (see
+ * `utils/merge.ts`) so two devices' copies can be reconciled.
+ */
+export interface SyncMeta {
+  updatedAt?: string;
+}
+
+/** Marks a deleted entity so the delete wins over older remote copies. */
+export interface Tombstone {
+  collection: SyncedCollection;
+  id: string;
+  deletedAt: string;
+}
+
+export type SyncedCollection = 'quests' | 'habits' | 'focusSessions' | 'badges' | 'moods';
+
+export interface User extends SyncMeta {
   id: string;
   name: string;
   email: string;
@@ -19,9 +36,54 @@ export interface User {
   joinedDate: string;
   dailyGoal?: string;
   weeklySchedule?: string[];
+  /**
+   * How many days back habit check-ins may be logged or removed.
+   * Defaults to `DEFAULT_CHECKIN_GRACE_DAYS` when unset.
+   */
+  checkInGraceDays?: number;
+  /** IANA timezone used for day boundaries. Device timezone when unset. */
+  timeZone?: string;
+  /** Local hour (0-23) at which a new day starts. Defaults to midnight. */
+  dayStartHour?: number;
+  /** Custom Pomodoro profiles. The built-in ones are used when unset. */
+  focusProfiles?: FocusProfile[];
+  activeFocusProfileId?: string;
+  /**
+   * Lifetime completed focus sessions. Only recent history is loaded from
+   * storage, so lifetime stats and badges read this instead of counting.
+   * Filled in once from the full history when unset.
+   */
+  focusTotals?: FocusTotals;
+  /** Guest account: no sign-in, stored on this device only. */
+  guest?: boolean;
 }
 
-export interface Quest {
+export interface FocusTotals {
+  sessions: number;
+  minutes: number;
+}
+
+export interface FocusProfile {
+  id: string;
+  name: string;
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  /** A long break replaces the short one after every N focus blocks. */
+  longBreakEvery: number;
+  autoStartBreaks: boolean;
+  autoStartFocus: boolean;
+  /** Ambient sound played during focus blocks; silence when unset. */
+  soundscape?: Soundscape;
+  /** Soundscape and chime volume, 0-100. */
+  volume?: number;
+  /** Play a chime when a focus block starts and ends. Defaults to on. */
+  chimes?: boolean;
+}
+
+export type Soundscape = 'none' | 'white' | 'pink' | 'brown' | 'rain' | 'binaural';
+
+export interface Quest extends SyncMeta {
   id: string;
   title: string;
   description?: string;
@@ -33,8 +95,33 @@ export interface Quest {
   subtasks: Subtask[];
   createdAt: string;
   completedAt?: string;
+  /** Legacy repeat flags; read them through `getQuestRecurrence`. */
   isDaily?: boolean;
   isWeekly?: boolean;
+  recurrence?: QuestRecurrence;
+  /** Past occurrences of a recurring quest, oldest first. */
+  occurrences?: QuestOccurrence[];
+}
+
+/**
+ * How a quest repeats, modelled on the RRULE frequencies:
+ * - daily:    every day
+ * - weekly:   on the given weekdays (0 = Sunday … 6 = Saturday)
+ * - monthly:  on day N of the month, clamped to shorter months
+ * - interval: every N days counting from `anchor` (YYYY-MM-DD)
+ */
+export type QuestRecurrence =
+  | { kind: 'daily' }
+  | { kind: 'weekly'; weekdays: number[] }
+  | { kind: 'monthly'; dayOfMonth: number }
+  | { kind: 'interval'; everyDays: number; anchor: string };
+
+export interface QuestOccurrence {
+  /** Local day key (YYYY-MM-DD) the occurrence was due on. */
+  dueDate: string;
+  /** Unset when the occurrence was missed. */
+  completedAt?: string;
+  xpEarned: number;
 }
 
 export interface Subtask {
@@ -43,32 +130,119 @@ export interface Subtask {
   completed: boolean;
 }
 
-export interface Habit {
+export interface Habit extends SyncMeta {
   id: string;
   title: string;
   description?: string;
   frequency: 'daily' | 'weekly' | 'custom';
+  /** Scheduled weekdays for `custom` habits (0 = Sunday … 6 = Saturday). */
   customDays?: number[];
+  /** Target completions per week for `weekly` habits. Defaults to 1. */
+  timesPerWeek?: number;
+  /**
+   * Derived from `completedDates` by `utils/streaks.ts`. Counted in days for
+   * daily/custom habits and in weeks for weekly habits.
+   */
   currentStreak: number;
   longestStreak: number;
   xpPerCompletion: number;
   completedDates: string[];
+  /**
+   * XP granted for each `completedDates` entry, keyed by its timestamp, so
+   * unmarking refunds what was earned even after `xpPerCompletion` changed.
+   * Completions without an entry predate this and count `xpPerCompletion`.
+   */
+  completionXP?: Record<string, number>;
   createdAt: string;
   reminderTime?: string;
   color?: string;
+  /** Archived habits keep their history but are hidden and cannot be checked in. */
+  archived?: boolean;
 }
 
-export interface FocusSession {
+export interface FocusSession extends SyncMeta {
   id: string;
   questId?: string;
+  /** Subtask of `questId` the session was spent on. */
+  subtaskId?: string;
   duration: number;
   startTime: string;
   endTime?: string;
   xpEarned: number;
+  /** False when the session was abandoned before the timer ran out. */
   completed: boolean;
+  /** Distractions logged while the session ran. */
+  interruptions?: FocusInterruption[];
+}
+
+export interface FocusInterruption {
+  at: string;
+  reason: string;
+  note?: string;
+}
+
+/** Quest (and optionally subtask) a focus session is working on. */
+export type FocusTarget = Pick<FocusSession, 'questId' | 'subtaskId'>;
+
+export interface FocusPause {
+  start: string;
+  /** Missing while the pause is still ongoing. */
+  end?: string;
 }
 
-export interface Badge {
+/**
+ * The running focus or break timer. Only timestamps are stored; the time
+ * left is always derived from the wall clock (see `utils/focusTimer.ts`) so
+ * it does not drift in background tabs and survives navigation and reloads.
+ */
+export interface ActiveFocusTimer extends FocusTarget {
+  phase: 'focus' | 'break' | 'longBreak';
+  /** Planned length of this phase in minutes. */
+  duration: number;
+  startedAt: string;
+  pauses: FocusPause[];
+  /** Distractions logged during this focus block. */
+  interruptions?: FocusInterruption[];
+}
+
+export type BadgeMetric =
+  | 'completedQuests'
+  /** Best streak of a daily or custom-day habit, in days. */
+  | 'longestStreak'
+  /** Best streak of a weekly habit, in weeks. */
+  | 'longestWeeklyStreak'
+  | 'focusSessions'
+  | 'level'
+  | 'totalFocusMinutes'
+  | 'tagCompletedQuests';
+
+export type BadgeComparator = 'gte' | 'gt' | 'eq' | 'lte';
+
+/**
+ * Structured unlock condition for a badge, evaluated by `utils/badges.ts`.
+ * `requirement` on the badge stays as the human readable summary.
+ */
+export interface BadgeRule {
+  metric: BadgeMetric;
+  comparator: BadgeComparator;
+  threshold: number;
+  /** Required when `metric` is `tagCompletedQuests`. */
+  tag?: string;
+  /** Only count activity from the last N days (quests and focus metrics). */
+  windowDays?: number;
+}
+
+export interface BadgeProgress {
+  current: number;
+  target: number;
+  /** 0–100, clamped. */
+  percent: number;
+  met: boolean;
+  /** Short label such as "37/50 quests". */
+  label: string;
+}
+
+export interface Badge extends SyncMeta {
   id: string;
   name: string;
   description: string;
@@ -77,6 +251,7 @@ export interface Badge {
   unlockedAt?: string;
   isLocked: boolean;
   requirement?: string;
+  rule?: BadgeRule;
 }
 
 export interface Stats {
@@ -103,10 +278,21 @@ export interface AppState {
    * Keeps history so the user can see trends over time.
    */
   moodByDate?: Record<string, string>;
+  /** When each mood entry was last set, keyed like `moodByDate`. */
+  moodMeta?: Record<string, SyncMeta>;
+  /** Deletes not yet known to every device. */
+  tombstones?: Tombstone[];
 
   /**
    * Tracks the last local date (YYYY-MM-DD) when daily quests were reset.
    * This prevents daily quests from getting stuck as completed forever.
    */
   lastDailyReset?: string;
+
+  /** Focus or break timer in progress, if any. */
+  activeFocus?: ActiveFocusTimer | null;
+  /** Focus blocks finished since the last long break. */
+  focusCycleCount?: number;
+  /** Schema the state was saved with; see `utils/schema.ts`. */
+  schemaVersion?: number;
 }
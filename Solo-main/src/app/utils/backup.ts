@@ -0,0 +1,142 @@
+import { format } from 'date-fns';
+import { AppState } from '../types';
+import { mergeStates } from './merge';
+import { LoadReport, SCHEMA_VERSION, upgradeState } from './schema';
+import { PersistedState, toPersistedState } from './sync';
+import { withBadgeCatalog } from './badges';
+
+/**
+ * Backup files.
+ *
+ * A backup is a JSON envelope around the persisted state:
+ *
+ *   { format: 'levelday-backup', version: 1, exportedAt, schemaVersion, data }
+ *
+ * `version` is the envelope's own version; `data` goes through the same
+ * migrations and repairs as state loaded from storage, so backups made by
+ * older releases still import. Sync bookkeeping (tombstones) is left out.
+ */
+
+export const BACKUP_FORMAT = 'levelday-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupData = Omit<PersistedState, 'tombstones'>;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion: number;
+  data: BackupData;
+}
+
+export interface BackupCounts {
+  quests: number;
+  habits: number;
+  focusSessions: number;
+  unlockedBadges: number;
+  moods: number;
+}
+
+/** A backup file that passed validation, ready to preview and apply. */
+export interface ParsedBackup {
+  exportedAt: string | null;
+  state: AppState;
+  counts: BackupCounts;
+  report: LoadReport;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function createBackup(state: AppState, now: Date = new Date()): Backup {
+  const { tombstones: _tombstones, ...data } = toPersistedState(state);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    data: { ...data, schemaVersion: SCHEMA_VERSION },
+  };
+}
+
+export const serializeBackup = (backup: Backup): string => JSON.stringify(backup, null, 2);
+
+export const getBackupFileName = (now: Date = new Date()): string =>
+  `levelday-backup-${format(now, 'yyyy-MM-dd')}.json`;
+
+export function getBackupCounts(state: AppState): BackupCounts {
+  return {
+    quests: state.quests.length,
+    habits: state.habits.length,
+    focusSessions: state.focusSessions.length,
+    unlockedBadges: state.badges.filter((b) => !b.isLocked).length,
+    moods: Object.keys(state.moodByDate ?? {}).length,
+  };
+}
+
+/**
+ * Validates a backup file's text. Throws an `Error` with a message fit to
+ * show the user when the file is not a usable backup.
+ */
+export function parseBackup(text: string, now: Date = new Date()): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a LevelDay backup.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new Error('The backup was made by a newer version of the app. Update the app and try again.');
+  }
+
+  const upgraded = upgradeState(raw.data, now);
+  if (!upgraded) throw new Error('The backup contains no data.');
+  if (!upgraded.state.user) throw new Error('The backup has no readable profile.');
+
+  const state = withBadgeCatalog(upgraded.state);
+  delete state.tombstones;
+  return {
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : null,
+    state,
+    counts: getBackupCounts(state),
+    report: upgraded.report,
+  };
+}
+
+/**
+ * Applies a parsed backup to the signed-in state.
+ *
+ * The account identity (id, email, guest flag) and device-only fields
+ * always stay as they are. `replace` swaps everything else for the
+ * backup's content; `merge` keeps both, resolving entities present in both
+ * by `updatedAt` like a sync. Pass the result through `stampChanges` (the
+ * app's `setAppState`) so replaced or removed entities sync as edits.
+ */
+export function applyBackup(current: AppState, backup: AppState, mode: RestoreMode): AppState {
+  if (!current.user || !backup.user) return current;
+
+  const imported: AppState = { ...backup, user: { ...backup.user, id: current.user.id } };
+  const next =
+    mode === 'merge'
+      ? mergeStates(current, imported)
+      : {
+          ...imported,
+          currentPage: current.currentPage,
+          activeFocus: current.activeFocus,
+          focusCycleCount: current.focusCycleCount,
+          tombstones: current.tombstones,
+        };
+
+  const user = { ...next.user!, email: current.user.email };
+  if (current.user.guest) user.guest = true;
+  else delete user.guest;
+  return { ...next, user, isOnboarded: true, schemaVersion: SCHEMA_VERSION };
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { BadgeRule } from '../types';
+import { makeBadge, makeHabit, makeQuest, makeSession, makeState, makeUser } from '../test/fixtures';
+import { getBadgeProgress, measureBadgeMetric, withBadgeCatalog } from './badges';
+import { mockBadges } from './mockData';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+const rule = (metric: BadgeRule['metric'], extra: Partial<BadgeRule> = {}): BadgeRule => ({
+  metric,
+  comparator: 'gte',
+  threshold: 1,
+  ...extra,
+});
+
+describe('measureBadgeMetric', () => {
+  const quests = [
+    makeQuest('q1', 'Read a chapter', {
+      tags: ['Learning'],
+      status: 'completed',
+      completedAt: '2026-10-18T08:00:00.000Z',
+      recurrence: { kind: 'daily' },
+      occurrences: [
+        { dueDate: '2026-08-01', completedAt: '2026-08-01T08:00:00.000Z', xpEarned: 25 },
+        { dueDate: '2026-08-02', xpEarned: 0 },
+      ],
+    }),
+    makeQuest('q2', 'Ship it', { status: 'completed', completedAt: '2026-10-17T08:00:00.000Z' }),
+    makeQuest('q3', 'Plan', { tags: ['learning'] }),
+  ];
+
+  it('counts completed quests, including past occurrences', () => {
+    expect(measureBadgeMetric(rule('completedQuests'), makeState({ quests }), NOW)).toBe(3);
+  });
+
+  it('only counts quests inside the window', () => {
+    expect(measureBadgeMetric(rule('completedQuests', { windowDays: 30 }), makeState({ quests }), NOW)).toBe(2);
+  });
+
+  it('matches quest tags without regard to case', () => {
+    const state = makeState({ quests });
+    expect(measureBadgeMetric(rule('tagCompletedQuests', { tag: 'learning' }), state, NOW)).toBe(2);
+    expect(measureBadgeMetric(rule('tagCompletedQuests'), state, NOW)).toBe(0);
+  });
+
+  it('reads lifetime focus from the stored totals', () => {
+    const state = makeState({
+      user: makeUser({ focusTotals: { sessions: 120, minutes: 3000 } }),
+      focusSessions: [makeSession('f1', '2026-10-18T08:00:00.000Z')],
+    });
+    expect(measureBadgeMetric(rule('focusSessions'), state, NOW)).toBe(120);
+    expect(measureBadgeMetric(rule('totalFocusMinutes'), state, NOW)).toBe(3000);
+  });
+
+  it('counts the loaded sessions until totals are stored', () => {
+    const state = makeState({
+      focusSessions: [
+        makeSession('f1', '2026-10-18T08:00:00.000Z', { duration: 50 }),
+        makeSession('f2', '2026-10-18T09:00:00.000Z', { completed: false }),
+      ],
+    });
+    expect(measureBadgeMetric(rule('focusSessions'), state, NOW)).toBe(1);
+    expect(measureBadgeMetric(rule('totalFocusMinutes'), state, NOW)).toBe(50);
+  });
+
+  it('counts windowed focus from the loaded sessions', () => {
+    const state = makeState({
+      user: makeUser({ focusTotals: { sessions: 120, minutes: 3000 } }),
+      focusSessions: [
+        makeSession('f1', '2026-10-18T08:00:00.000Z'),
+        makeSession('f2', '2026-09-01T08:00:00.000Z'),
+      ],
+    });
+    expect(measureBadgeMetric(rule('focusSessions', { windowDays: 7 }), state, NOW)).toBe(1);
+    expect(measureBadgeMetric(rule('totalFocusMinutes', { windowDays: 7 }), state, NOW)).toBe(25);
+  });
+
+  it('keeps day and week streaks apart', () => {
+    const state = makeState({
+      habits: [
+        makeHabit('daily', { longestStreak: 5 }),
+        makeHabit('custom', { frequency: 'custom', customDays: [1, 3], longestStreak: 6 }),
+        makeHabit('weekly', { frequency: 'weekly', longestStreak: 9 }),
+      ],
+    });
+    expect(measureBadgeMetric(rule('longestStreak'), state, NOW)).toBe(6);
+    expect(measureBadgeMetric(rule('longestWeeklyStreak'), state, NOW)).toBe(9);
+  });
+
+  it('reads the user level', () => {
+    expect(measureBadgeMetric(rule('level'), makeState({ user: makeUser({ level: 7 }) }), NOW)).toBe(7);
+  });
+});
+
+describe('getBadgeProgress', () => {
+  const state = makeState({ user: makeUser({ level: 4 }) });
+
+  it('reports partial progress towards an "at least" rule', () => {
+    const badge = makeBadge('b1', rule('level', { threshold: 10 }));
+    expect(getBadgeProgress(badge, state, NOW)).toEqual({
+      current: 4,
+      target: 10,
+      percent: 40,
+      met: false,
+      label: 'Level 4/10',
+    });
+  });
+
+  it('needs one more than the threshold for "greater than" rules', () => {
+    const badge = makeBadge('b1', rule('level', { comparator: 'gt', threshold: 4 }));
+    expect(getBadgeProgress(badge, state, NOW)).toMatchObject({ current: 4, target: 5, met: false, percent: 80 });
+  });
+
+  it('gives no partial progress to exact and "at most" rules', () => {
+    const exact = makeBadge('b1', rule('level', { comparator: 'eq', threshold: 5 }));
+    const atMost = makeBadge('b2', rule('level', { comparator: 'lte', threshold: 5 }));
+    expect(getBadgeProgress(exact, state, NOW)).toMatchObject({ met: false, percent: 0 });
+    expect(getBadgeProgress(atMost, state, NOW)).toMatchObject({ met: true, percent: 100 });
+  });
+
+  it('caps the label at the target once met', () => {
+    const badge = makeBadge('b1', rule('completedQuests', { threshold: 1 }));
+    const quests = [
+      makeQuest('q1', 'A', { status: 'completed', completedAt: '2026-10-18T08:00:00.000Z' }),
+      makeQuest('q2', 'B', { status: 'completed', completedAt: '2026-10-18T09:00:00.000Z' }),
+    ];
+    expect(getBadgeProgress(badge, makeState({ quests }), NOW)?.label).toBe('1/1 quests');
+  });
+
+  it('labels weekly streaks in weeks', () => {
+    const badge = makeBadge('b1', rule('longestWeeklyStreak', { threshold: 4 }));
+    const habits = [makeHabit('weekly', { frequency: 'weekly', longestStreak: 2 })];
+    expect(getBadgeProgress(badge, makeState({ habits }), NOW)?.label).toBe('2/4 week streak');
+  });
+
+  it('falls back to the catalog rule for badges saved without one', () => {
+    const catalog = mockBadges.find((b) => b.rule?.metric === 'level')!;
+    const progress = getBadgeProgress(makeBadge(catalog.id), state, NOW);
+    expect(progress?.target).toBe(catalog.rule?.threshold);
+  });
+
+  it('returns null for a badge without any rule', () => {
+    expect(getBadgeProgress(makeBadge('unknown'), state, NOW)).toBeNull();
+  });
+});
+
+describe('withBadgeCatalog', () => {
+  it('adds catalog badges the saved list lacks, locked', () => {
+    const unlocked = { ...mockBadges[0], isLocked: false, unlockedAt: '2026-10-01T00:00:00.000Z' };
+    const { badges } = withBadgeCatalog(makeState({ badges: [unlocked] }));
+    expect(badges.map((b) => b.id)).toEqual(mockBadges.map((b) => b.id));
+    expect(badges[0]).toBe(unlocked);
+    expect(badges.slice(1).every((b) => b.isLocked && !b.unlockedAt)).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import { AppState, Badge, BadgeComparator, BadgeMetric, BadgeProgress, BadgeRule } from '../types';
+import { mockBadges } from './mockData';
+import { getQuestCompletions } from './recurrence';
+import { getFocusTotals } from './focus';
+import { getStreakUnit, StreakUnit } from './streaks';
+
+/**
+ * Declarative badge rules.
+ *
+ * A badge unlocks when `measure(rule.metric) <comparator> rule.threshold`.
+ * Adding a new badge only requires a new entry with a `rule`; nothing here
+ * needs to change unless a brand new metric is introduced.
+ */
+
+const METRIC_UNITS: Record<BadgeMetric, string> = {
+  completedQuests: 'quests',
+  longestStreak: 'day streak',
+  longestWeeklyStreak: 'week streak',
+  focusSessions: 'focus sessions',
+  level: 'level',
+  totalFocusMinutes: 'focus minutes',
+  tagCompletedQuests: 'quests',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the rule for a badge. Badges persisted before rules existed are
+ * matched against the built-in catalog by id.
+ */
+export function resolveBadgeRule(badge: Badge): BadgeRule | undefined {
+  return badge.rule ?? mockBadges.find((b) => b.id === badge.id)?.rule;
+}
+
+function isWithinWindow(iso: string | undefined, rule: BadgeRule, now: Date): boolean {
+  if (!rule.windowDays) return true;
+  if (!iso) return false;
+  const t = new Date(iso).getTime();
+  if (Number.isNaN(t)) return false;
+  return now.getTime() - t <= rule.windowDays * DAY_MS;
+}
+
+/** Best streak among habits counted in `unit`; day and week streaks never compete. */
+function getLongestStreak(state: AppState, unit: StreakUnit): number {
+  return state.habits
+    .filter((h) => getStreakUnit(h) === unit)
+    .reduce((max, h) => Math.max(max, h.longestStreak), 0);
+}
+
+/** Computes the current value of a rule's metric for the given state. */
+export function measureBadgeMetric(rule: BadgeRule, state: AppState, now: Date = new Date()): number {
+  switch (rule.metric) {
+    case 'completedQuests':
+      return getQuestCompletions(state.quests).filter((c) => isWithinWindow(c.completedAt, rule, now))
+        .length;
+    case 'tagCompletedQuests': {
+      const tag = rule.tag?.toLowerCase();
+      if (!tag) return 0;
+      return getQuestCompletions(state.quests).filter(
+        (c) =>
+          c.quest.tags.some((t) => t.toLowerCase() === tag) && isWithinWindow(c.completedAt, rule, now)
+      ).length;
+    }
+    case 'longestStreak':
+      return getLongestStreak(state, 'day');
+    case 'longestWeeklyStreak':
+      return getLongestStreak(state, 'week');
+    // Only recent sessions are loaded, so lifetime counts use the stored totals.
+    case 'focusSessions':
+      if (!rule.windowDays) return getFocusTotals(state.user, state.focusSessions).sessions;
+      return state.focusSessions.filter((fs) => fs.completed && isWithinWindow(fs.startTime, rule, now))
+        .length;
+    case 'totalFocusMinutes':
+      if (!rule.windowDays) return getFocusTotals(state.user, state.focusSessions).minutes;
+      return state.focusSessions
+        .filter((fs) => fs.completed && isWithinWindow(fs.startTime, rule, now))
+        .reduce((sum, fs) => sum + fs.duration, 0);
+    case 'level':
+      return state.user?.level ?? 0;
+    default:
+      return 0;
+  }
+}
+
+function compare(value: number, comparator: BadgeComparator, threshold: number): boolean {
+  switch (comparator) {
+    case 'gte':
+      return value >= threshold;
+    case 'gt':
+      return value > threshold;
+    case 'eq':
+      return value === threshold;
+    case 'lte':
+      return value <= threshold;
+    default:
+      return false;
+  }
+}
+
+export function formatBadgeProgress(rule: BadgeRule, current: number, target: number): string {
+  if (rule.metric === 'level') return `Level ${current}/${target}`;
+  const unit = rule.metric === 'tagCompletedQuests' && rule.tag ? `${rule.tag} quests` : METRIC_UNITS[rule.metric];
+  return `${current}/${target} ${unit}`;
+}
+
+/**
+ * Evaluates a badge against the state. Returns `null` for badges without a
+ * known rule so callers can fall back to the static requirement text.
+ */
+export function getBadgeProgress(badge: Badge, state: AppState, now: Date = new Date()): BadgeProgress | null {
+  const rule = resolveBadgeRule(badge);
+  if (!rule) return null;
+
+  const current = measureBadgeMetric(rule, state, now);
+  const met = compare(current, rule.comparator, rule.threshold);
+  const target = rule.comparator === 'gt' ? rule.threshold + 1 : rule.threshold;
+
+  // Only "at least" style rules have a meaningful partial progress.
+  const isAscending = rule.comparator === 'gte' || rule.comparator === 'gt';
+  const percent = met ? 100 : isAscending && target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 0;
+
+  return {
+    current,
+    target,
+    percent,
+    met,
+    label: formatBadgeProgress(rule, isAscending ? Math.min(current, target) : current, target),
+  };
+}
+
+/** Progress for every badge keyed by badge id (badges without a rule are omitted). */
+export function getBadgeProgressMap(state: AppState, now: Date = new Date()): Record<string, BadgeProgress> {
+  const result: Record<string, BadgeProgress> = {};
+  for (const badge of state.badges) {
+    const progress = getBadgeProgress(badge, state, now);
+    if (progress) result[badge.id] = progress;
+  }
+  return result;
+}
+
+/**
+ * Appends catalog badges missing from a persisted badge list so badges added
+ * in later releases show up for existing users.
+ */
+export function withBadgeCatalog(state: AppState): AppState {
+  const known = new Set(state.badges.map((b) => b.id));
+  const missing = mockBadges.filter((b) => !known.has(b.id));
+  if (missing.length === 0) return state;
+  const added = missing.map((b) => ({ ...b, isLocked: true, unlockedAt: undefined }));
+  return { ...state, badges: [...state.badges, ...added] };
+}
+
+/**
+ * Locked badges ordered by how close they are to unlocking. Badges with no
+ * progress at all are left out so the list only shows reachable goals.
+ */
+export function getClosestBadges(
+  badges: Badge[],
+  progressById: Record<string, BadgeProgress>,
+  limit = 3
+): { badge: Badge; progress: BadgeProgress }[] {
+  return badges
+    .filter((b) => b.isLocked && progressById[b.id] && progressById[b.id].percent > 0)
+    .map((badge) => ({ badge, progress: progressById[badge.id] }))
+    .sort((a, b) => b.progress.percent - a.progress.percent)
+    .slice(0, limit);
+}
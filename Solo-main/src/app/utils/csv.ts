@@ -0,0 +1,32 @@
+/**
+ * CSV serialization (RFC 4180) tuned for spreadsheets:
+ *
+ * - fields with commas, quotes or line breaks are quoted, quotes doubled
+ * - rows end in CRLF and the file starts with a UTF-8 BOM so Excel picks
+ *   the right encoding for non-ASCII titles
+ * - text starting with `=`, `+`, `-`, `@`, tab or CR gets a leading `'`
+ *   so spreadsheets show it instead of evaluating it as a formula
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvTable {
+  headers: string[];
+  rows: CsvValue[][];
+}
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NEEDS_QUOTES = /[",\r\n]/;
+
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  // Numbers and booleans are written as is so spreadsheets read them as such.
+  if (typeof value !== 'string') return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return NEEDS_QUOTES.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv({ headers, rows }: CsvTable): string {
+  const lines = [headers, ...rows].map((row) => row.map(escapeCsvField).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Habit } from '../types';
+import { makeHabit } from '../test/fixtures';
+import { toCsv } from './csv';
+import { getHabitsTable } from './csvExports';
+
+const UTC = { timeZone: 'UTC' };
+
+const habit = (completedDates: string[], extra: Partial<Habit> = {}): Habit =>
+  makeHabit('habit-1', { title: 'Read, "daily"', completedDates, ...extra });
+
+describe('getHabitsTable', () => {
+  it('writes one row per check-in day with the right weekday', () => {
+    const { rows } = getHabitsTable([habit(['2026-10-19T08:12:00.000Z'])], {}, UTC);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].slice(0, 2)).toEqual(['2026-10-19', 'Monday']);
+  });
+
+  it('includes check-ins on the last day of the range', () => {
+    const completed = ['2026-10-17T09:00:00.000Z', '2026-10-19T08:12:00.000Z', '2026-10-20T07:00:00.000Z'];
+    const { rows } = getHabitsTable([habit(completed)], { from: '2026-10-18', to: '2026-10-19' }, UTC);
+    expect(rows.map((row) => row[0])).toEqual(['2026-10-19']);
+  });
+
+  it('merges several check-ins on one day', () => {
+    const { rows } = getHabitsTable([habit(['2026-10-19T08:00:00.000Z', '2026-10-19T20:00:00.000Z'])], {}, UTC);
+    expect(rows).toHaveLength(1);
+  });
+
+  it('uses the day boundary for late-night check-ins', () => {
+    const boundary = { timeZone: 'Asia/Jakarta', dayStartHour: 4 };
+    // 02:30 in Jakarta on the 20th still counts towards the 19th.
+    const { rows } = getHabitsTable([habit(['2026-10-19T19:30:00.000Z'])], {}, boundary);
+    expect(rows[0][0]).toBe('2026-10-19');
+  });
+
+  it('escapes titles in the CSV output', () => {
+    const csv = toCsv(getHabitsTable([habit(['2026-10-19T08:12:00.000Z'])], {}, UTC));
+    expect(csv).toContain('"Read, ""daily"""');
+  });
+});
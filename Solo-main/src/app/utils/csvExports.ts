@@ -0,0 +1,177 @@
+import { FocusSession, Habit, Quest } from '../types';
+import { CsvTable, CsvValue } from './csv';
+import { DayBoundary, dateKeyToLocalDate, isoToDayKey } from './date';
+import { describeRecurrence, getQuestRecurrence } from './recurrence';
+
+/**
+ * Per-entity CSV exports for spreadsheet analysis.
+ *
+ * Every row has a `date` column: the day (under the user's day boundary)
+ * the row counts towards, which is also what the date range filters on.
+ * Timestamps are kept as ISO strings next to it.
+ */
+
+export type CsvExportKind = 'quests' | 'habits' | 'focusSessions';
+
+/** Inclusive range of day keys (YYYY-MM-DD); an open end is unbounded. */
+export interface ExportRange {
+  from?: string;
+  to?: string;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const inRange = (key: string | null, range: ExportRange): key is string =>
+  !!key && (!range.from || key >= range.from) && (!range.to || key <= range.to);
+
+const joinTags = (tags: string[]) => tags.join('; ');
+
+/**
+ * One row per quest completion, including past occurrences of recurring
+ * quests (missed ones too, with 0 XP), plus a row for each quest that is
+ * still open. Open quests are dated by due date, or creation date if none.
+ */
+export function getQuestsTable(quests: Quest[], range: ExportRange = {}, boundary?: DayBoundary | null): CsvTable {
+  const rows: CsvValue[][] = [];
+  const addRow = (quest: Quest, date: string | null, status: string, dueDate?: string, completedAt?: string, xp = 0) => {
+    if (!inRange(date, range)) return;
+    const recurrence = getQuestRecurrence(quest);
+    rows.push([
+      date,
+      quest.id,
+      quest.title,
+      quest.description,
+      quest.difficulty,
+      status,
+      joinTags(quest.tags),
+      recurrence ? describeRecurrence(recurrence) : '',
+      quest.subtasks.filter((s) => s.completed).length,
+      quest.subtasks.length,
+      quest.createdAt,
+      dueDate,
+      completedAt,
+      xp,
+    ]);
+  };
+
+  for (const quest of quests) {
+    for (const occurrence of quest.occurrences ?? []) {
+      const date = occurrence.completedAt ? isoToDayKey(occurrence.completedAt, boundary) : occurrence.dueDate;
+      const status = occurrence.completedAt ? 'completed' : 'missed';
+      addRow(quest, date, status, occurrence.dueDate, occurrence.completedAt, occurrence.xpEarned);
+    }
+    if (quest.status === 'completed') {
+      const date = isoToDayKey(quest.completedAt ?? quest.createdAt, boundary);
+      addRow(quest, date, 'completed', quest.dueDate, quest.completedAt, quest.xpReward);
+    } else {
+      addRow(quest, isoToDayKey(quest.dueDate ?? quest.createdAt, boundary), quest.status, quest.dueDate);
+    }
+  }
+
+  rows.sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+  return {
+    headers: [
+      'date',
+      'quest_id',
+      'title',
+      'description',
+      'difficulty',
+      'status',
+      'tags',
+      'repeats',
+      'subtasks_done',
+      'subtasks_total',
+      'created_at',
+      'due_date',
+      'completed_at',
+      'xp_earned',
+    ],
+    rows,
+  };
+}
+
+/**
+ * One row per habit check-in day. `completedDates` holds timestamps, which
+ * are moved onto the user's day boundary; several check-ins on one day
+ * make one row. Archived habits are included and flagged.
+ */
+export function getHabitsTable(habits: Habit[], range: ExportRange = {}, boundary?: DayBoundary | null): CsvTable {
+  const rows: CsvValue[][] = [];
+  for (const habit of habits) {
+    const days = new Set(habit.completedDates.map((iso) => isoToDayKey(iso, boundary)));
+    for (const date of days) {
+      if (!inRange(date, range)) continue;
+      rows.push([
+        date,
+        WEEKDAY_NAMES[dateKeyToLocalDate(date).getDay()],
+        habit.id,
+        habit.title,
+        habit.description,
+        habit.frequency,
+        habit.xpPerCompletion,
+        habit.archived === true,
+      ]);
+    }
+  }
+
+  rows.sort((a, b) => String(a[0]).localeCompare(String(b[0])) || String(a[3]).localeCompare(String(b[3])));
+  return { headers: ['date', 'weekday', 'habit_id', 'habit', 'description', 'frequency', 'xp', 'archived'], rows };
+}
+
+/** One row per focus session, with the linked quest and subtask by name. */
+export function getFocusSessionsTable(
+  sessions: FocusSession[],
+  quests: Quest[],
+  range: ExportRange = {},
+  boundary?: DayBoundary | null
+): CsvTable {
+  const questsById = new Map(quests.map((q) => [q.id, q]));
+  const rows: CsvValue[][] = [];
+  for (const session of sessions) {
+    const date = isoToDayKey(session.startTime, boundary);
+    if (!inRange(date, range)) continue;
+    const quest = session.questId ? questsById.get(session.questId) : undefined;
+    const subtask = quest?.subtasks.find((s) => s.id === session.subtaskId);
+    rows.push([
+      date,
+      session.id,
+      session.startTime,
+      session.endTime,
+      session.duration,
+      session.completed,
+      session.xpEarned,
+      session.questId,
+      quest?.title,
+      quest ? joinTags(quest.tags) : '',
+      subtask?.title,
+      session.interruptions?.length ?? 0,
+      session.interruptions?.map((i) => i.reason).join('; '),
+    ]);
+  }
+
+  rows.sort((a, b) => String(a[2]).localeCompare(String(b[2])));
+  return {
+    headers: [
+      'date',
+      'session_id',
+      'start_time',
+      'end_time',
+      'duration_minutes',
+      'completed',
+      'xp_earned',
+      'quest_id',
+      'quest',
+      'quest_tags',
+      'subtask',
+      'interruptions',
+      'interruption_reasons',
+    ],
+    rows,
+  };
+}
+
+export function getCsvFileName(kind: CsvExportKind, range: ExportRange, todayKey: string): string {
+  const name = kind === 'focusSessions' ? 'focus-sessions' : kind;
+  const span = range.from || range.to ? `${range.from ?? 'start'}_to_${range.to ?? todayKey}` : todayKey;
+  return `levelday-${name}-${span}.csv`;
+}
@@ -23,6 +23,12 @@ export function isoToLocalDateKey(iso?: string): string | null {
   return toLocalDateKey(dt);
 }
 
+/** Parses a YYYY-MM-DD key into a Date at local noon (DST-safe for day math). */
+export function dateKeyToLocalDate(key: string): Date {
+  const [y, m, d] = key.split('-').map((n) => Number(n));
+  return new Date(y, (m || 1) - 1, d || 1, 12, 0, 0, 0);
+}
+
 /** Create an ISO string for a due date anchored at local noon to avoid DST edges. */
 export function makeDueDateISO(date: Date): string {
   const localNoon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0, 0);
@@ -36,3 +42,125 @@ export function isSameLocalDay(iso: string | undefined, date: Date): boolean {
   const a = isoToLocalDateKey(iso);
   return a !== null && a === toLocalDateKey(date);
 }
+
+/**
+ * Where a "day" begins for habit, mood and rollover logic. `User` satisfies
+ * this shape, so the signed-in user can be passed directly.
+ *
+ * - timeZone:     IANA zone (e.g. "Asia/Jakarta"); device zone when unset
+ * - dayStartHour: local hour (0-23) at which a new day starts, so a night
+ *                 owl with 4 can still log yesterday's habits at 2am
+ */
+export interface DayBoundary {
+  timeZone?: string;
+  dayStartHour?: number;
+}
+
+const dayKeyFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getDayKeyFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!dayKeyFormatters.has(timeZone)) {
+    try {
+      dayKeyFormatters.set(
+        timeZone,
+        new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+      );
+    } catch {
+      // Unknown zone: fall back to the device zone.
+      dayKeyFormatters.set(timeZone, null);
+    }
+  }
+  return dayKeyFormatters.get(timeZone) ?? null;
+}
+
+/** Whether the runtime recognises `timeZone` as an IANA zone. */
+export function isValidTimeZone(timeZone: string): boolean {
+  return getDayKeyFormatter(timeZone) !== null;
+}
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function clampDayStartHour(hour: number | undefined): number {
+  if (hour === undefined || !Number.isFinite(hour)) return 0;
+  return Math.min(23, Math.max(0, Math.floor(hour)));
+}
+
+/**
+ * Day key (YYYY-MM-DD) an instant belongs to under the given boundary.
+ * Use this for timestamps (completions, "now"); use `toLocalDateKey` for
+ * calendar dates that are already day-aligned.
+ */
+export function getDayKey(instant: Date, boundary?: DayBoundary | null): string {
+  const shifted = new Date(instant.getTime() - clampDayStartHour(boundary?.dayStartHour) * 60 * 60 * 1000);
+  const formatter = boundary?.timeZone ? getDayKeyFormatter(boundary.timeZone) : null;
+  if (!formatter) return toLocalDateKey(shifted);
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(shifted)) parts[part.type] = part.value;
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+const clockFormatters = new Map<string, Intl.DateTimeFormat | null>();
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Weekday (0 = Sunday) and hour (0-23) an instant shows on the wall clock
+ * of `timeZone`, or of the device when unset. Unlike `getDayKey` this
+ * ignores the day-start hour: 1am on a Saturday is Saturday, 1am.
+ */
+export function getWallClock(instant: Date, timeZone?: string): { weekday: number; hour: number } {
+  let formatter: Intl.DateTimeFormat | null = null;
+  if (timeZone) {
+    if (!clockFormatters.has(timeZone)) {
+      try {
+        clockFormatters.set(
+          timeZone,
+          new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' })
+        );
+      } catch {
+        clockFormatters.set(timeZone, null);
+      }
+    }
+    formatter = clockFormatters.get(timeZone) ?? null;
+  }
+  if (!formatter) return { weekday: instant.getDay(), hour: instant.getHours() };
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(instant)) parts[part.type] = part.value;
+  return { weekday: WEEKDAYS.indexOf(parts.weekday), hour: Number(parts.hour) % 24 };
+}
+
+/** Day key for an ISO timestamp under the given boundary (or null). */
+export function isoToDayKey(iso: string | undefined, boundary?: DayBoundary | null): string | null {
+  if (!iso) return null;
+  const dt = new Date(iso);
+  if (Number.isNaN(dt.getTime())) return null;
+  return getDayKey(dt, boundary);
+}
+
+/** Shifts a YYYY-MM-DD key by whole calendar days. */
+export function addDaysToDateKey(key: string, days: number): string {
+  const date = dateKeyToLocalDate(key);
+  date.setDate(date.getDate() + days);
+  return toLocalDateKey(date);
+}
+
+/**
+ * An instant that falls inside the day `key` under the given boundary,
+ * used to anchor backfilled completions. Starts from device-local noon
+ * (plus the day-start offset) and nudges by whole days if the configured
+ * timezone puts that instant on a neighbouring day.
+ */
+export function dayKeyToInstant(key: string, boundary?: DayBoundary | null): Date {
+  const instant = dateKeyToLocalDate(key);
+  instant.setHours(instant.getHours() + clampDayStartHour(boundary?.dayStartHour));
+
+  const actual = getDayKey(instant, boundary);
+  if (actual === key) return instant;
+  const offsetDays = Math.round(
+    (dateKeyToLocalDate(key).getTime() - dateKeyToLocalDate(actual).getTime()) / (24 * 60 * 60 * 1000)
+  );
+  return new Date(instant.getTime() + offsetDays * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,12 @@
+/** Saves `content` as a file through a temporary object URL. */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,145 @@
+import { FocusSession, FocusTotals, User } from '../types';
+import { getWallClock } from './date';
+
+/**
+ * Focus session helpers shared by the focus screen, quest cards and stats.
+ */
+
+/** Minutes of completed focus time per quest id. */
+export function getFocusMinutesByQuest(sessions: FocusSession[]): Record<string, number> {
+  const minutes: Record<string, number> = {};
+  for (const session of sessions) {
+    if (!session.completed || !session.questId) continue;
+    minutes[session.questId] = (minutes[session.questId] || 0) + session.duration;
+  }
+  return minutes;
+}
+
+/** Completed sessions and their minutes, counted from `sessions`. */
+export function countFocusTotals(sessions: FocusSession[]): FocusTotals {
+  const completed = sessions.filter((s) => s.completed);
+  return { sessions: completed.length, minutes: completed.reduce((sum, s) => sum + s.duration, 0) };
+}
+
+/**
+ * Lifetime focus totals: the stored running totals, or a count of the
+ * loaded sessions until those have been filled in.
+ */
+export function getFocusTotals(user: User | null, sessions: FocusSession[]): FocusTotals {
+  return user?.focusTotals ?? countFocusTotals(sessions);
+}
+
+/** Formats minutes as "45m" or "2h 05m". */
+export function formatFocusMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/** Quick picks for the "I got distracted" button. */
+export const DISTRACTION_REASONS = ['Phone', 'Social media', 'Messages', 'Noise', 'Someone interrupted', 'Hungry / tired', 'Other'];
+
+export interface FocusQuality {
+  total: number;
+  completed: number;
+  abandoned: number;
+  /** 0-100, or null when no sessions were recorded yet. */
+  completionRate: number | null;
+  averageInterruptions: number;
+  topReasons: { reason: string; count: number }[];
+}
+
+/** Completion rate and distraction breakdown across all recorded sessions. */
+export function getFocusQuality(sessions: FocusSession[], topCount = 5): FocusQuality {
+  const completed = sessions.filter((s) => s.completed).length;
+  const reasonCounts = new Map<string, number>();
+  let interruptions = 0;
+
+  for (const session of sessions) {
+    for (const i of session.interruptions ?? []) {
+      interruptions++;
+      reasonCounts.set(i.reason, (reasonCounts.get(i.reason) || 0) + 1);
+    }
+  }
+
+  return {
+    total: sessions.length,
+    completed,
+    abandoned: sessions.length - completed,
+    completionRate: sessions.length > 0 ? Math.round((completed / sessions.length) * 100) : null,
+    averageInterruptions: sessions.length > 0 ? Math.round((interruptions / sessions.length) * 10) / 10 : 0,
+    topReasons: Array.from(reasonCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topCount)
+      .map(([reason, count]) => ({ reason, count })),
+  };
+}
+
+/**
+ * Completed focus minutes as a 7 x 24 grid indexed `[weekday][hour]`
+ * (weekday 0 = Sunday) on the user's wall clock. Sessions spanning several
+ * hours are split across them in 15 minute slices.
+ */
+export function getFocusHourGrid(sessions: FocusSession[], timeZone?: string): number[][] {
+  const grid = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+  const sliceMs = 15 * 60 * 1000;
+
+  for (const session of sessions) {
+    if (!session.completed || session.duration <= 0) continue;
+    const start = new Date(session.startTime).getTime();
+    if (Number.isNaN(start)) continue;
+    const end = start + session.duration * 60 * 1000;
+
+    for (let t = start; t < end; t += sliceMs) {
+      const minutes = (Math.min(end, t + sliceMs) - t) / (60 * 1000);
+      const { weekday, hour } = getWallClock(new Date(t), timeZone);
+      if (weekday < 0) continue;
+      grid[weekday][hour] += minutes;
+    }
+  }
+  return grid;
+}
+
+export interface PeakFocusWindow {
+  /** First hour of the window (0-23). */
+  startHour: number;
+  /** Hour the window ends, exclusive; may wrap past midnight. */
+  endHour: number;
+  minutes: number;
+  /** Share of all focused minutes inside the window, 0-100. */
+  share: number;
+}
+
+/** Sessions needed before the peak window is considered meaningful. */
+export const MIN_SESSIONS_FOR_PEAK = 5;
+
+/**
+ * The `hours`-long stretch of the day with the most completed focus time,
+ * across all weekdays. Null until there is enough history to say.
+ */
+export function getPeakFocusWindow(grid: number[][], sessionCount: number, hours = 2): PeakFocusWindow | null {
+  if (sessionCount < MIN_SESSIONS_FOR_PEAK) return null;
+
+  const byHour = Array.from({ length: 24 }, (_, h) => grid.reduce((sum, day) => sum + day[h], 0));
+  const total = byHour.reduce((sum, m) => sum + m, 0);
+  if (total === 0) return null;
+
+  let best = { startHour: 0, minutes: -1 };
+  for (let startHour = 0; startHour < 24; startHour++) {
+    let minutes = 0;
+    for (let i = 0; i < hours; i++) minutes += byHour[(startHour + i) % 24];
+    if (minutes > best.minutes) best = { startHour, minutes };
+  }
+
+  return {
+    startHour: best.startHour,
+    endHour: (best.startHour + hours) % 24,
+    minutes: Math.round(best.minutes),
+    share: Math.round((best.minutes / total) * 100),
+  };
+}
+
+/** Formats a window as "09:00–11:00". */
+export function formatHourRange(startHour: number, endHour: number): string {
+  const pad = (h: number) => `${String(h).padStart(2, '0')}:00`;
+  return `${pad(startHour)}–${pad(endHour)}`;
+}
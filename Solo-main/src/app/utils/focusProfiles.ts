@@ -0,0 +1,75 @@
+import { FocusProfile, User } from '../types';
+
+/**
+ * Pomodoro profiles. Users may define their own; until they do, the
+ * built-in profiles below (matching the original 25/45/90 presets) apply.
+ */
+
+export const DEFAULT_FOCUS_PROFILES: FocusProfile[] = [
+  {
+    id: 'pomodoro',
+    name: 'Pomodoro',
+    focusMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    longBreakEvery: 4,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+  },
+  {
+    id: 'deep-work',
+    name: 'Deep Work',
+    focusMinutes: 45,
+    shortBreakMinutes: 10,
+    longBreakMinutes: 20,
+    longBreakEvery: 3,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+  },
+  {
+    id: 'flow-state',
+    name: 'Flow State',
+    focusMinutes: 90,
+    shortBreakMinutes: 15,
+    longBreakMinutes: 30,
+    longBreakEvery: 2,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+  },
+];
+
+export function getFocusProfiles(user: User | null): FocusProfile[] {
+  return user?.focusProfiles?.length ? user.focusProfiles : DEFAULT_FOCUS_PROFILES;
+}
+
+export function getActiveFocusProfile(user: User | null): FocusProfile {
+  const profiles = getFocusProfiles(user);
+  return profiles.find((p) => p.id === user?.activeFocusProfileId) ?? profiles[0];
+}
+
+function clampMinutes(value: number, max: number): number {
+  return Math.min(max, Math.max(1, Math.round(value || 1)));
+}
+
+/** Trims the name and clamps every length before a profile is saved. */
+export function normalizeFocusProfile(profile: FocusProfile): FocusProfile {
+  return {
+    ...profile,
+    name: profile.name.trim() || 'Untitled Profile',
+    focusMinutes: clampMinutes(profile.focusMinutes, 180),
+    shortBreakMinutes: clampMinutes(profile.shortBreakMinutes, 60),
+    longBreakMinutes: clampMinutes(profile.longBreakMinutes, 120),
+    longBreakEvery: clampMinutes(profile.longBreakEvery, 12),
+    ...(profile.volume !== undefined ? { volume: Math.min(100, Math.max(0, Math.round(profile.volume))) } : {}),
+  };
+}
+
+/** Break that follows the `completed`-th focus block of a cycle. */
+export function getNextBreak(
+  profile: FocusProfile,
+  completed: number
+): { phase: 'break' | 'longBreak'; minutes: number } {
+  return completed >= profile.longBreakEvery
+    ? { phase: 'longBreak', minutes: profile.longBreakMinutes }
+    : { phase: 'break', minutes: profile.shortBreakMinutes };
+}
@@ -0,0 +1,121 @@
+import { ActiveFocusTimer, FocusTarget } from '../types';
+
+/**
+ * Wall-clock focus timer.
+ *
+ * A timer is a start timestamp, a planned duration and a list of pauses.
+ * Elapsed time is `now - startedAt - paused time`, so the countdown is
+ * correct no matter how often (or rarely) it is rendered.
+ */
+
+/** XP for focused minutes: 1.2 XP per minute, so a 25 minute Pomodoro earns 30. */
+export function getFocusXP(minutes: number): number {
+  return Math.max(1, Math.round(minutes * 1.2));
+}
+
+export function isBreakPhase(phase: ActiveFocusTimer['phase']): boolean {
+  return phase !== 'focus';
+}
+
+/**
+ * Starts a phase at `now`. With `autoStart` off the timer is created paused,
+ * waiting for the user to press start.
+ */
+export function startFocusTimer(
+  phase: ActiveFocusTimer['phase'],
+  duration: number,
+  target: FocusTarget,
+  now: Date,
+  autoStart = true
+): ActiveFocusTimer {
+  return {
+    phase,
+    duration,
+    startedAt: now.toISOString(),
+    pauses: autoStart ? [] : [{ start: now.toISOString() }],
+    // Omit empty links instead of storing undefined (Firestore rejects it).
+    ...(target.questId ? { questId: target.questId } : {}),
+    ...(target.questId && target.subtaskId ? { subtaskId: target.subtaskId } : {}),
+  };
+}
+
+export function isTimerPaused(timer: ActiveFocusTimer): boolean {
+  const last = timer.pauses[timer.pauses.length - 1];
+  return !!last && !last.end;
+}
+
+export function pauseFocusTimer(timer: ActiveFocusTimer, now: Date): ActiveFocusTimer {
+  if (isTimerPaused(timer)) return timer;
+  return { ...timer, pauses: [...timer.pauses, { start: now.toISOString() }] };
+}
+
+export function resumeFocusTimer(timer: ActiveFocusTimer, now: Date): ActiveFocusTimer {
+  if (!isTimerPaused(timer)) return timer;
+  const pauses = timer.pauses.map((p, i) =>
+    i === timer.pauses.length - 1 ? { ...p, end: now.toISOString() } : p
+  );
+  return { ...timer, pauses };
+}
+
+/** Adds a timestamped distraction to the running focus block. */
+export function logInterruption(timer: ActiveFocusTimer, reason: string, note: string, now: Date): ActiveFocusTimer {
+  const trimmed = note.trim();
+  const interruption = { at: now.toISOString(), reason, ...(trimmed ? { note: trimmed } : {}) };
+  return { ...timer, interruptions: [...(timer.interruptions ?? []), interruption] };
+}
+
+function getPausedMs(timer: ActiveFocusTimer, now: Date): number {
+  return timer.pauses.reduce((sum, p) => {
+    const end = p.end ? new Date(p.end).getTime() : now.getTime();
+    return sum + Math.max(0, end - new Date(p.start).getTime());
+  }, 0);
+}
+
+export function getElapsedMs(timer: ActiveFocusTimer, now: Date): number {
+  const elapsed = now.getTime() - new Date(timer.startedAt).getTime() - getPausedMs(timer, now);
+  return Math.min(timer.duration * 60 * 1000, Math.max(0, elapsed));
+}
+
+export function getRemainingSeconds(timer: ActiveFocusTimer, now: Date): number {
+  return Math.ceil((timer.duration * 60 * 1000 - getElapsedMs(timer, now)) / 1000);
+}
+
+/**
+ * Instant the current phase ends (or ended). Used to date a session that
+ * finished while the app was closed.
+ */
+export function getTimerEndsAt(timer: ActiveFocusTimer, now: Date): Date {
+  return new Date(new Date(timer.startedAt).getTime() + timer.duration * 60 * 1000 + getPausedMs(timer, now));
+}
+
+/**
+ * Whether a phase of `minutes` starting at `start` is already over at `now`.
+ * Auto-started phases chained from a timer that ran out while the app was
+ * closed would otherwise replay blocks nobody sat through.
+ */
+export function isPhaseOver(start: Date, minutes: number, now: Date): boolean {
+  return start.getTime() + minutes * 60 * 1000 <= now.getTime();
+}
+
+/** Formats seconds as MM:SS. */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, seconds);
+  return `${String(Math.floor(s / 60)).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+}
+
+/** False for a timer that was created paused and never started. */
+export function hasTimerStarted(timer: ActiveFocusTimer, now: Date): boolean {
+  return !isTimerPaused(timer) || getElapsedMs(timer, now) > 0;
+}
+
+/**
+ * Minutes to record when a focus block is reset before it ran out, or null
+ * when there is nothing worth keeping (a break, or a mis-click under a
+ * minute with no distractions logged).
+ */
+export function getAbandonedMinutes(timer: ActiveFocusTimer, now: Date): number | null {
+  if (timer.phase !== 'focus') return null;
+  const elapsedMs = getElapsedMs(timer, now);
+  if (elapsedMs < 60 * 1000 && !timer.interruptions?.length) return null;
+  return Math.round(elapsedMs / (60 * 1000));
+}
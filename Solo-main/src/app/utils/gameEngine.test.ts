@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import { AppState } from '../types';
+import { makeBadge, makeHabit, makeQuest, makeState, makeUser } from '../test/fixtures';
+import { applyGameAction, findEvent, GameAction } from './gameEngine';
+import { isoToDayKey } from './date';
+
+// A Monday.
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const UTC = { timeZone: 'UTC' };
+
+const act = (state: AppState, action: GameAction) => applyGameAction(state, action, NOW);
+
+describe('XP and levels', () => {
+  it('levels up when a reward crosses the threshold', () => {
+    const state = makeState({ user: makeUser({ totalXP: 95, xp: 95 }), quests: [makeQuest('q1', 'Ship it')] });
+    const { state: next, events } = act(state, { type: 'questCompleted', questId: 'q1' });
+
+    expect(next.user).toMatchObject({ totalXP: 120, level: 2, xp: 20, xpToNextLevel: 150 });
+    expect(events).toEqual([
+      { type: 'questCompleted', questId: 'q1', xpReward: 25 },
+      { type: 'xpGained', source: 'quest', amount: 25 },
+      { type: 'levelUp', from: 1, to: 2 },
+    ]);
+  });
+
+  it('levels down when a refund drops below the threshold', () => {
+    const habit = makeHabit('h1', { completedDates: [NOW.toISOString()] });
+    const user = makeUser({ ...UTC, totalXP: 105, level: 2, xp: 5, xpToNextLevel: 150 });
+    const { state: next, events } = act(makeState({ user, habits: [habit] }), { type: 'habitToggled', habitId: 'h1' });
+
+    expect(next.user).toMatchObject({ totalXP: 95, level: 1, xp: 95, xpToNextLevel: 100 });
+    expect(findEvent(events, 'xpRefunded')).toEqual({ type: 'xpRefunded', source: 'habit', amount: 10 });
+    expect(findEvent(events, 'levelDown')).toEqual({ type: 'levelDown', from: 2, to: 1 });
+  });
+
+  it('never takes total XP below zero', () => {
+    const habit = makeHabit('h1', { completedDates: [NOW.toISOString()] });
+    const { state: next, events } = act(makeState({ user: makeUser({ ...UTC, totalXP: 4 }), habits: [habit] }), {
+      type: 'habitToggled',
+      habitId: 'h1',
+    });
+    expect(next.user?.totalXP).toBe(0);
+    expect(findEvent(events, 'xpRefunded')?.amount).toBe(4);
+  });
+});
+
+describe('quest completion', () => {
+  it('marks the quest completed at now', () => {
+    const state = makeState({ quests: [makeQuest('q1', 'Ship it')] });
+    const { state: next } = act(state, { type: 'questCompleted', questId: 'q1' });
+    expect(next.quests[0]).toMatchObject({ status: 'completed', completedAt: NOW.toISOString() });
+  });
+
+  it('ignores quests that are already completed or missing', () => {
+    const state = makeState({ quests: [makeQuest('q1', 'Ship it', { status: 'completed' })] });
+    for (const questId of ['q1', 'gone']) {
+      const result = act(state, { type: 'questCompleted', questId });
+      expect(result.state).toBe(state);
+      expect(result.events).toEqual([]);
+    }
+  });
+
+  it('unlocks a badge whose rule is now met', () => {
+    const badge = makeBadge('first-quest', { metric: 'completedQuests', comparator: 'gte', threshold: 1 });
+    const state = makeState({ quests: [makeQuest('q1', 'Ship it')], badges: [badge] });
+    const { state: next, events } = act(state, { type: 'questCompleted', questId: 'q1' });
+
+    expect(next.badges[0]).toMatchObject({ isLocked: false, unlockedAt: NOW.toISOString() });
+    expect(findEvent(events, 'badgeUnlocked')?.badge.id).toBe('first-quest');
+  });
+});
+
+describe('habit check-ins', () => {
+  it('marks today and reports the streak', () => {
+    const habit = makeHabit('h1', { completedDates: ['2026-10-18T12:00:00.000Z'], currentStreak: 1 });
+    const { state, events } = act(makeState({ user: makeUser(UTC), habits: [habit] }), {
+      type: 'habitToggled',
+      habitId: 'h1',
+    });
+
+    expect(state.habits[0].completedDates).toEqual(['2026-10-18T12:00:00.000Z', NOW.toISOString()]);
+    expect(state.habits[0].completionXP).toEqual({ [NOW.toISOString()]: 10 });
+    expect(state.user?.totalXP).toBe(10);
+    expect(findEvent(events, 'habitCompleted')).toEqual({
+      type: 'habitCompleted',
+      habitId: 'h1',
+      dateKey: '2026-10-19',
+      xpReward: 10,
+      streak: 2,
+      unit: 'day',
+    });
+    expect(findEvent(events, 'streakExtended')).toEqual({ type: 'streakExtended', habitId: 'h1', streak: 2 });
+  });
+
+  it('backfills a day inside the grace window at mid-day', () => {
+    const { state, events } = act(makeState({ user: makeUser(UTC), habits: [makeHabit('h1')] }), {
+      type: 'habitDayToggled',
+      habitId: 'h1',
+      dateKey: '2026-10-17',
+    });
+    expect(state.habits[0].completedDates.map((iso) => isoToDayKey(iso, UTC))).toEqual(['2026-10-17']);
+    expect(findEvent(events, 'habitCompleted')?.dateKey).toBe('2026-10-17');
+  });
+
+  it('rejects days before the grace window and ignores future days', () => {
+    const state = makeState({ user: makeUser(UTC), habits: [makeHabit('h1')] });
+
+    const early = act(state, { type: 'habitDayToggled', habitId: 'h1', dateKey: '2026-10-16' });
+    expect(early.state).toBe(state);
+    expect(early.events).toEqual([
+      { type: 'checkInRejected', habitId: 'h1', dateKey: '2026-10-16', graceDays: 2 },
+    ]);
+
+    const future = act(state, { type: 'habitDayToggled', habitId: 'h1', dateKey: '2026-10-20' });
+    expect(future.state).toBe(state);
+    expect(future.events).toEqual([]);
+  });
+
+  it('does not check in archived habits', () => {
+    const state = makeState({ user: makeUser(UTC), habits: [makeHabit('h1', { archived: true })] });
+    expect(act(state, { type: 'habitToggled', habitId: 'h1' }).state).toBe(state);
+  });
+
+  it('refunds the XP a completion earned after the reward changed', () => {
+    const state = makeState({ user: makeUser(UTC), habits: [makeHabit('h1', { xpPerCompletion: 10 })] });
+    const marked = act(state, { type: 'habitToggled', habitId: 'h1' }).state;
+    const raised = { ...marked, habits: marked.habits.map((h) => ({ ...h, xpPerCompletion: 50 })) };
+
+    const { state: unmarked, events } = act(raised, { type: 'habitToggled', habitId: 'h1' });
+    expect(findEvent(events, 'habitUnmarked')?.xpRefund).toBe(10);
+    expect(unmarked.user?.totalXP).toBe(0);
+    expect(unmarked.habits[0].completedDates).toEqual([]);
+    expect(unmarked.habits[0].completionXP).toEqual({});
+  });
+
+  it('refunds the current reward for completions saved before it was recorded', () => {
+    const habit = makeHabit('h1', { xpPerCompletion: 15, completedDates: ['2026-10-19T08:00:00.000Z'] });
+    const state = makeState({ user: makeUser({ ...UTC, totalXP: 15 }), habits: [habit] });
+    const { state: unmarked, events } = act(state, { type: 'habitToggled', habitId: 'h1' });
+    expect(findEvent(events, 'habitUnmarked')?.xpRefund).toBe(15);
+    expect(unmarked.user?.totalXP).toBe(0);
+  });
+});
+
+describe('focus sessions', () => {
+  const quest = makeQuest('q1', 'Write', { subtasks: [{ id: 's1', title: 'Outline', completed: false }] });
+
+  it('records a finished session ending now and grants its XP', () => {
+    const user = makeUser({ focusTotals: { sessions: 3, minutes: 75 } });
+    const { state, events } = act(makeState({ user, quests: [quest] }), {
+      type: 'focusFinished',
+      duration: 25,
+      xpEarned: 20,
+      questId: 'q1',
+      subtaskId: 's1',
+    });
+
+    expect(state.focusSessions).toHaveLength(1);
+    expect(state.focusSessions[0]).toMatchObject({
+      questId: 'q1',
+      subtaskId: 's1',
+      duration: 25,
+      startTime: '2026-10-19T09:35:00.000Z',
+      endTime: NOW.toISOString(),
+      xpEarned: 20,
+      completed: true,
+    });
+    expect(state.user?.totalXP).toBe(20);
+    expect(state.user?.focusTotals).toEqual({ sessions: 4, minutes: 100 });
+    expect(findEvent(events, 'focusRecorded')?.session).toBe(state.focusSessions[0]);
+  });
+
+  it('drops links to quests and subtasks that no longer exist', () => {
+    const { state } = act(makeState({ quests: [quest] }), {
+      type: 'focusFinished',
+      duration: 25,
+      xpEarned: 20,
+      questId: 'q1',
+      subtaskId: 'gone',
+    });
+    expect(state.focusSessions[0].questId).toBe('q1');
+    expect(state.focusSessions[0].subtaskId).toBeUndefined();
+  });
+
+  it('keeps an abandoned session without XP or a lifetime total', () => {
+    const user = makeUser({ focusTotals: { sessions: 3, minutes: 75 } });
+    const { state, events } = act(makeState({ user }), { type: 'focusAbandoned', duration: 10 });
+
+    expect(state.focusSessions[0]).toMatchObject({ duration: 10, xpEarned: 0, completed: false });
+    expect(state.user).toBe(user);
+    expect(findEvent(events, 'xpGained')).toBeUndefined();
+  });
+
+  it('leaves totals that were never counted for the history backfill', () => {
+    const { state } = act(makeState(), { type: 'focusFinished', duration: 25, xpEarned: 20 });
+    expect(state.user?.focusTotals).toBeUndefined();
+  });
+});
+
+describe('day rollover', () => {
+  const daily = makeQuest('q1', 'Stretch', {
+    status: 'completed',
+    completedAt: '2026-10-16T08:00:00.000Z',
+    dueDate: '2026-10-16T12:00:00.000Z',
+    xpReward: 10,
+    recurrence: { kind: 'daily' },
+  });
+
+  it('catches up on the occurrences missed while the app was closed', () => {
+    const { state, events } = act(makeState({ user: makeUser(UTC), quests: [daily] }), { type: 'dayRolledOver' });
+
+    expect(state.quests[0].occurrences).toEqual([
+      { dueDate: '2026-10-16', completedAt: '2026-10-16T08:00:00.000Z', xpEarned: 10 },
+      { dueDate: '2026-10-17', xpEarned: 0 },
+      { dueDate: '2026-10-18', xpEarned: 0 },
+    ]);
+    expect(state.quests[0].status).toBe('pending');
+    expect(isoToDayKey(state.quests[0].dueDate)).toBe('2026-10-19');
+    expect(state.lastDailyReset).toBe('2026-10-19');
+    expect(findEvent(events, 'recurringQuestsReset')).toEqual({
+      type: 'recurringQuestsReset',
+      dateKey: '2026-10-19',
+      count: 1,
+      missed: 2,
+    });
+  });
+
+  it('runs once per day', () => {
+    const state = makeState({ user: makeUser(UTC), quests: [daily], lastDailyReset: '2026-10-19' });
+    expect(act(state, { type: 'dayRolledOver' }).state).toBe(state);
+  });
+
+  it('breaks the streak of a habit whose scheduled day was missed', () => {
+    const habit = makeHabit('h1', { completedDates: ['2026-10-16T12:00:00.000Z'], currentStreak: 3, longestStreak: 3 });
+    const { state, events } = act(makeState({ user: makeUser(UTC), habits: [habit] }), { type: 'dayRolledOver' });
+
+    expect(state.habits[0].currentStreak).toBe(0);
+    expect(findEvent(events, 'streakBroken')).toEqual({ type: 'streakBroken', habitId: 'h1', previousStreak: 3 });
+  });
+});
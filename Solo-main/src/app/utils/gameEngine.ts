@@ -0,0 +1,326 @@
+import { AppState, Badge, FocusInterruption, FocusSession, FocusTarget, User } from '../types';
+import { createId } from './id';
+import { getHabitCompletionXP, getLevelProgress } from './xp';
+import { getBadgeProgress } from './badges';
+import { getStreakUnit, StreakUnit, withRecalculatedStreaks } from './streaks';
+import { advanceRecurringQuest } from './recurrence';
+import { addDaysToDateKey, dayKeyToInstant, getDayKey, isoToDayKey } from './date';
+
+/**
+ * Pure game engine.
+ *
+ * Every rule that changes XP, levels, streaks or badges lives here so it can
+ * be exercised without React or Firebase. `applyGameAction` never mutates its
+ * input; it returns the next state plus the events the UI may want to react
+ * to (toasts, confetti, ...).
+ *
+ * "Today" is always resolved with `getDayKey(now, state.user)` so habit
+ * check-ins and the daily rollover honour the user's timezone and
+ * day-start hour.
+ */
+
+export type GameAction =
+  | { type: 'questCompleted'; questId: string }
+  | { type: 'habitToggled'; habitId: string }
+  | { type: 'habitDayToggled'; habitId: string; dateKey: string }
+  | ({ type: 'focusFinished'; duration: number; xpEarned: number; interruptions?: FocusInterruption[] } & FocusTarget)
+  | ({ type: 'focusAbandoned'; duration: number; interruptions?: FocusInterruption[] } & FocusTarget)
+  | { type: 'dayRolledOver' };
+
+export type XPSource = 'quest' | 'habit' | 'focus';
+
+export type GameEvent =
+  | { type: 'xpGained'; source: XPSource; amount: number }
+  | { type: 'xpRefunded'; source: XPSource; amount: number }
+  | { type: 'levelUp'; from: number; to: number }
+  | { type: 'levelDown'; from: number; to: number }
+  | { type: 'questCompleted'; questId: string; xpReward: number }
+  | {
+      type: 'habitCompleted';
+      habitId: string;
+      dateKey: string;
+      xpReward: number;
+      streak: number;
+      unit: StreakUnit;
+    }
+  | { type: 'habitUnmarked'; habitId: string; dateKey: string; xpRefund: number }
+  | { type: 'streakExtended'; habitId: string; streak: number }
+  | { type: 'streakBroken'; habitId: string; previousStreak: number }
+  | { type: 'checkInRejected'; habitId: string; dateKey: string; graceDays: number }
+  | { type: 'focusRecorded'; session: FocusSession }
+  | { type: 'badgeUnlocked'; badge: Badge }
+  | { type: 'recurringQuestsReset'; dateKey: string; count: number; missed: number };
+
+export interface GameResult {
+  state: AppState;
+  events: GameEvent[];
+}
+
+export const DEFAULT_CHECKIN_GRACE_DAYS = 2;
+
+export function getCheckInGraceDays(user: User | null): number {
+  return Math.max(0, user?.checkInGraceDays ?? DEFAULT_CHECKIN_GRACE_DAYS);
+}
+
+/** Oldest day key on which a habit check-in may still be changed. */
+export function getCheckInWindowStart(user: User | null, now: Date = new Date()): string {
+  return addDaysToDateKey(getDayKey(now, user), -getCheckInGraceDays(user));
+}
+
+/**
+ * Adds `amount` XP to the user (negative amounts refund) and recomputes level
+ * fields. Emits `xpGained`/`xpRefunded` and `levelUp`/`levelDown` when a
+ * threshold is crossed in either direction.
+ */
+function grantXP(user: User, amount: number, source: XPSource, events: GameEvent[]): User {
+  const totalXP = Math.max(0, user.totalXP + amount);
+  const progress = getLevelProgress(totalXP);
+
+  if (amount >= 0) {
+    events.push({ type: 'xpGained', source, amount });
+  } else {
+    events.push({ type: 'xpRefunded', source, amount: user.totalXP - totalXP });
+  }
+  if (progress.level > user.level) {
+    events.push({ type: 'levelUp', from: user.level, to: progress.level });
+  } else if (progress.level < user.level) {
+    events.push({ type: 'levelDown', from: user.level, to: progress.level });
+  }
+
+  return { ...user, ...progress, totalXP };
+}
+
+/**
+ * Unlocks badges whose requirement is now met. Already unlocked badges are
+ * left untouched so `unlockedAt` keeps its original value.
+ */
+function unlockBadges(state: AppState, now: Date, events: GameEvent[]): AppState {
+  if (!state.user) return state;
+
+  let changed = false;
+  const badges = state.badges.map((badge) => {
+    if (!badge.isLocked) return badge;
+
+    const progress = getBadgeProgress(badge, state, now);
+    if (!progress?.met) return badge;
+
+    changed = true;
+    const unlocked: Badge = { ...badge, isLocked: false, unlockedAt: now.toISOString() };
+    events.push({ type: 'badgeUnlocked', badge: unlocked });
+    return unlocked;
+  });
+
+  return changed ? { ...state, badges } : state;
+}
+
+function completeQuest(state: AppState, questId: string, now: Date, events: GameEvent[]): AppState {
+  const quest = state.quests.find((q) => q.id === questId);
+  if (!quest || !state.user || quest.status === 'completed') return state;
+
+  const quests = state.quests.map((q) =>
+    q.id === questId ? { ...q, status: 'completed' as const, completedAt: now.toISOString() } : q
+  );
+
+  events.push({ type: 'questCompleted', questId, xpReward: quest.xpReward });
+  const user = grantXP(state.user, quest.xpReward, 'quest', events);
+
+  return { ...state, user, quests };
+}
+
+/**
+ * Adds or removes a completion on a day inside the check-in grace
+ * window. This is the single reconciliation path for habit history: adding
+ * grants XP, removing refunds it (possibly de-levelling the user) and
+ * streaks are always re-derived from `completedDates`.
+ */
+function toggleHabitDay(
+  state: AppState,
+  habitId: string,
+  dateKey: string,
+  now: Date,
+  events: GameEvent[]
+): AppState {
+  const habit = state.habits.find((h) => h.id === habitId);
+  if (!habit || !state.user || habit.archived) return state;
+  const todayKey = getDayKey(now, state.user);
+  if (dateKey > todayKey) return state;
+  if (dateKey < getCheckInWindowStart(state.user, now)) {
+    events.push({ type: 'checkInRejected', habitId, dateKey, graceDays: getCheckInGraceDays(state.user) });
+    return state;
+  }
+
+  const user = state.user;
+  const dayEntries = habit.completedDates.filter((iso) => isoToDayKey(iso, user) === dateKey);
+  const isCompleted = dayEntries.length > 0;
+  // Today keeps the real timestamp; backfilled days are anchored mid-day.
+  const completedAt = dateKey === todayKey ? now.toISOString() : dayKeyToInstant(dateKey, user).toISOString();
+  const completionXP = { ...habit.completionXP };
+  let completedDates: string[];
+  if (isCompleted) {
+    completedDates = habit.completedDates.filter((iso) => !dayEntries.includes(iso));
+    dayEntries.forEach((iso) => delete completionXP[iso]);
+  } else {
+    completedDates = [...habit.completedDates, completedAt];
+    completionXP[completedAt] = habit.xpPerCompletion;
+  }
+
+  const updated = withRecalculatedStreaks({ ...habit, completedDates, completionXP }, now, user);
+  const habits = state.habits.map((h) => (h.id === habitId ? updated : h));
+
+  if (isCompleted) {
+    // Refund what the day actually earned, not the habit's current rate.
+    const xpRefund = dayEntries.reduce((sum, iso) => sum + getHabitCompletionXP(habit, iso), 0);
+    events.push({ type: 'habitUnmarked', habitId, dateKey, xpRefund });
+    return { ...state, user: grantXP(user, -xpRefund, 'habit', events), habits };
+  }
+
+  events.push({
+    type: 'habitCompleted',
+    habitId,
+    dateKey,
+    xpReward: habit.xpPerCompletion,
+    streak: updated.currentStreak,
+    unit: getStreakUnit(habit),
+  });
+  if (updated.currentStreak > habit.currentStreak && updated.currentStreak > 1) {
+    events.push({ type: 'streakExtended', habitId, streak: updated.currentStreak });
+  }
+  return { ...state, user: grantXP(user, habit.xpPerCompletion, 'habit', events), habits };
+}
+
+/**
+ * Records a focus session ending at `now`. Abandoned sessions keep the time
+ * actually focused but earn no XP, so they only feed the focus analytics.
+ */
+function recordFocus(
+  state: AppState,
+  session: Pick<FocusSession, 'duration' | 'xpEarned' | 'completed' | 'interruptions'>,
+  target: FocusTarget,
+  now: Date,
+  events: GameEvent[]
+): AppState {
+  if (!state.user) return state;
+  const { duration, xpEarned, completed, interruptions } = session;
+
+  // Drop links to quests or subtasks that no longer exist.
+  const quest = state.quests.find((q) => q.id === target.questId);
+  const subtask = quest?.subtasks.find((st) => st.id === target.subtaskId);
+
+  const recorded: FocusSession = {
+    id: createId('focus'),
+    questId: quest?.id,
+    subtaskId: subtask?.id,
+    duration,
+    startTime: new Date(now.getTime() - duration * 60 * 1000).toISOString(),
+    endTime: now.toISOString(),
+    xpEarned,
+    completed,
+  };
+  if (interruptions?.length) {
+    recorded.interruptions = interruptions;
+  }
+
+  events.push({ type: 'focusRecorded', session: recorded });
+  let user = xpEarned > 0 ? grantXP(state.user, xpEarned, 'focus', events) : state.user;
+  // Totals not filled in yet are counted from the full history later.
+  if (completed && user.focusTotals) {
+    user = {
+      ...user,
+      focusTotals: { sessions: user.focusTotals.sessions + 1, minutes: user.focusTotals.minutes + duration },
+    };
+  }
+
+  return { ...state, user, focusSessions: [...state.focusSessions, recorded] };
+}
+
+/**
+ * Runs once per day (as defined by the user's day boundary): advances
+ * recurring quests to their next occurrence, catching up on any days the app
+ * was closed, and recomputes habit streaks so a missed scheduled day
+ * actually breaks them.
+ */
+function rollOverDay(state: AppState, now: Date, events: GameEvent[]): AppState {
+  if (!state.user) return state;
+
+  const todayKey = getDayKey(now, state.user);
+  // Only roll forward: moving the day boundary back must not reset twice.
+  if (state.lastDailyReset && state.lastDailyReset >= todayKey) return state;
+
+  let count = 0;
+  let missed = 0;
+  const quests = state.quests.map((q) => {
+    const result = advanceRecurringQuest(q, todayKey, state.user);
+    if (result.quest !== q) count++;
+    missed += result.missed;
+    return result.quest;
+  });
+
+  const habits = state.habits.map((h) => {
+    const updated = withRecalculatedStreaks(h, now, state.user);
+    if (h.currentStreak > 0 && updated.currentStreak === 0) {
+      events.push({ type: 'streakBroken', habitId: h.id, previousStreak: h.currentStreak });
+    }
+    return updated;
+  });
+
+  events.push({ type: 'recurringQuestsReset', dateKey: todayKey, count, missed });
+  return { ...state, quests, habits, lastDailyReset: todayKey };
+}
+
+/**
+ * Applies a single game action to `state`. `now` is injectable so callers
+ * (and tests) control the clock.
+ */
+export function applyGameAction(state: AppState, action: GameAction, now: Date = new Date()): GameResult {
+  const events: GameEvent[] = [];
+  let next: AppState;
+
+  switch (action.type) {
+    case 'questCompleted':
+      next = completeQuest(state, action.questId, now, events);
+      break;
+    case 'habitToggled':
+      next = toggleHabitDay(state, action.habitId, getDayKey(now, state.user), now, events);
+      break;
+    case 'habitDayToggled':
+      next = toggleHabitDay(state, action.habitId, action.dateKey, now, events);
+      break;
+    case 'focusFinished':
+      next = recordFocus(
+        state,
+        { duration: action.duration, xpEarned: action.xpEarned, completed: true, interruptions: action.interruptions },
+        { questId: action.questId, subtaskId: action.subtaskId },
+        now,
+        events
+      );
+      break;
+    case 'focusAbandoned':
+      next = recordFocus(
+        state,
+        { duration: action.duration, xpEarned: 0, completed: false, interruptions: action.interruptions },
+        { questId: action.questId, subtaskId: action.subtaskId },
+        now,
+        events
+      );
+      break;
+    case 'dayRolledOver':
+      next = rollOverDay(state, now, events);
+      break;
+    default:
+      next = state;
+  }
+
+  if (next !== state) {
+    next = unlockBadges(next, now, events);
+  }
+
+  return { state: next, events };
+}
+
+/** Returns the first event of the given type, narrowed to its shape. */
+export function findEvent<T extends GameEvent['type']>(
+  events: GameEvent[],
+  type: T
+): Extract<GameEvent, { type: T }> | undefined {
+  return events.find((e): e is Extract<GameEvent, { type: T }> => e.type === type);
+}
@@ -0,0 +1,51 @@
+import { addDays, startOfWeek, subWeeks } from 'date-fns';
+import { Habit } from '../types';
+import { DayBoundary, dateKeyToLocalDate, getDayKey, toLocalDateKey } from './date';
+import { getCompletedDayKeys } from './streaks';
+
+/**
+ * Data helpers for the GitHub-style completion heatmap. Columns are weeks
+ * starting on Sunday, rows are weekdays.
+ */
+
+export interface HeatmapDay {
+  key: string;
+  date: Date;
+  count: number;
+  isFuture: boolean;
+}
+
+/** Number of completions per day across the given habits. */
+export function getHabitDayCounts(habits: Habit[], boundary?: DayBoundary | null): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const habit of habits) {
+    for (const key of getCompletedDayKeys(habit, boundary)) {
+      counts[key] = (counts[key] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/** Builds `weeks` columns of days ending with the week that contains `todayKey`. */
+export function buildHeatmapWeeks(
+  counts: Record<string, number>,
+  todayKey: string = getDayKey(new Date()),
+  weeks = 53
+): HeatmapDay[][] {
+  const firstWeek = startOfWeek(subWeeks(dateKeyToLocalDate(todayKey), weeks - 1));
+
+  return Array.from({ length: weeks }).map((_, w) =>
+    Array.from({ length: 7 }).map((__, d) => {
+      const date = addDays(firstWeek, w * 7 + d);
+      const key = toLocalDateKey(date);
+      return { key, date, count: counts[key] || 0, isFuture: key > todayKey };
+    })
+  );
+}
+
+/** Maps a count onto one of five intensity levels (0 = empty). */
+export function getHeatmapLevel(count: number, maxCount: number): number {
+  if (count <= 0) return 0;
+  if (maxCount <= 1) return 4;
+  return Math.max(1, Math.ceil((count / maxCount) * 4));
+}
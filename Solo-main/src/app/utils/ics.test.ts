@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { makeQuest } from '../test/fixtures';
+import { createQuestCalendar, importQuestsFromIcs } from './ics';
+
+// Noon keeps the device time zone from moving "today".
+const NOW = new Date(2026, 9, 19, 12);
+const JAKARTA = { timeZone: 'Asia/Jakarta' };
+
+const calendar = (rrule: string, start = '20261005') =>
+  [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:standup@example.com',
+    'SUMMARY:Standup',
+    `DTSTART;VALUE=DATE:${start}`,
+    `RRULE:${rrule}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+describe('importQuestsFromIcs', () => {
+  it('skips a counted series whose last occurrence has passed', () => {
+    // Mondays from Oct 5: the second and last is Oct 12.
+    const { quests, skipped } = importQuestsFromIcs(calendar('FREQ=WEEKLY;COUNT=2'), [], NOW);
+    expect(quests).toHaveLength(0);
+    expect(skipped).toEqual([{ title: 'Standup', reason: 'in the past' }]);
+  });
+
+  it('keeps a counted series that is still running and flags its end', () => {
+    const { quests, notes } = importQuestsFromIcs(calendar('FREQ=WEEKLY;COUNT=4'), [], NOW);
+    expect(quests).toHaveLength(1);
+    expect(quests[0].recurrence).toEqual({ kind: 'weekly', weekdays: [1] });
+    expect(notes).toEqual([
+      { title: 'Standup', reason: 'the series ends on Oct 26, 2026, but the quest keeps repeating after that' },
+    ]);
+  });
+
+  it('counts occurrences on the rule days, starting from DTSTART', () => {
+    // Mon Oct 5, then Wed Oct 7, Mon Oct 12, Wed Oct 14: over before today.
+    const { quests } = importQuestsFromIcs(calendar('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4'), [], NOW);
+    expect(quests).toHaveLength(0);
+  });
+
+  it('flags a count it cannot read', () => {
+    const { quests, notes } = importQuestsFromIcs(calendar('FREQ=DAILY;COUNT=x', '20261025'), [], NOW);
+    expect(quests[0].recurrence).toBeUndefined();
+    expect(notes).toEqual([{ title: 'Standup', reason: 'unreadable repeat count; imported as a one-off quest' }]);
+  });
+
+  it('keeps an open-ended series without a note', () => {
+    const { quests, notes } = importQuestsFromIcs(calendar('FREQ=DAILY'), [], NOW);
+    expect(quests[0].recurrence).toEqual({ kind: 'daily' });
+    expect(notes).toEqual([]);
+  });
+});
+
+describe('day boundary', () => {
+  // 01:00 on Oct 20 in Jakarta, still Oct 19 in UTC.
+  const lateEvening = new Date('2026-10-19T18:00:00.000Z');
+
+  it('exports a quest on its due day in the user time zone', () => {
+    const quest = makeQuest('q1', 'Standup', { dueDate: lateEvening.toISOString() });
+    const ics = createQuestCalendar([quest], { now: lateEvening, boundary: JAKARTA });
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261020\r\n');
+  });
+
+  it('reads today and UTC start times in the user time zone', () => {
+    const past = importQuestsFromIcs(calendar('FREQ=DAILY;COUNT=1', '20261019'), [], lateEvening, JAKARTA);
+    expect(past.skipped).toEqual([{ title: 'Standup', reason: 'in the past' }]);
+
+    const timed = calendar('FREQ=DAILY;COUNT=1').replace('DTSTART;VALUE=DATE:20261005', 'DTSTART:20261019T180000Z');
+    expect(importQuestsFromIcs(timed, [], lateEvening, JAKARTA).quests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,461 @@
+import { format } from 'date-fns';
+import { Habit, Quest, QuestDifficulty, QuestRecurrence } from '../types';
+import { createId } from './id';
+import { DayBoundary, addDaysToDateKey, dateKeyToLocalDate, getDayKey, isoToDayKey, toLocalDateKey } from './date';
+import { getNextOccurrence, getQuestRecurrence, occurrenceDueDateISO } from './recurrence';
+import { getXPForDifficulty } from './xp';
+
+/**
+ * iCalendar (RFC 5545) export and import, done entirely in the browser.
+ *
+ * Export: each pending quest with a due date becomes an all-day VEVENT on
+ * that day (read through the user's day boundary), repeating quests get an RRULE, tags become CATEGORIES and
+ * difficulty becomes PRIORITY. Habit reminders can be added as timed,
+ * repeating events in floating (device local) time.
+ *
+ * Import: VEVENTs and VTODOs become pending quests due on their start (or
+ * DUE) day. RRULEs this app can represent are kept; anything else imports
+ * as a one-off quest and is reported. Events this app exported itself are
+ * recognised by UID so importing the same file twice adds nothing.
+ */
+
+const PRODID = '-//LevelDay//Quests//EN';
+const UID_DOMAIN = 'levelday';
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+/** Length of exported habit reminder events. */
+const HABIT_REMINDER_MINUTES = 15;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+/** Folds a content line at 75 octets without splitting a character. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit.
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const toIcsDate = (key: string) => key.replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const DIFFICULTY_PRIORITY: Record<QuestDifficulty, number> = { hard: 1, normal: 5, easy: 9 };
+
+function recurrenceToRRule(recurrence: QuestRecurrence): string {
+  switch (recurrence.kind) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly': {
+      const weekdays = recurrence.weekdays.length > 0 ? recurrence.weekdays : [1];
+      return `FREQ=WEEKLY;BYDAY=${weekdays.map((d) => ICS_DAYS[d]).join(',')}`;
+    }
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${recurrence.dayOfMonth}`;
+    case 'interval':
+      return `FREQ=DAILY;INTERVAL=${recurrence.everyDays}`;
+  }
+}
+
+function habitRRule(habit: Habit): string {
+  if (habit.frequency === 'custom' && habit.customDays && habit.customDays.length > 0) {
+    return `FREQ=WEEKLY;BYDAY=${habit.customDays.map((d) => ICS_DAYS[d]).join(',')}`;
+  }
+  // Weekly habits have a target count rather than fixed days, so they are
+  // reminded daily like daily habits.
+  return 'FREQ=DAILY';
+}
+
+function questEvent(quest: Quest, stamp: string, boundary?: DayBoundary | null): string[] | null {
+  const dueKey = isoToDayKey(quest.dueDate, boundary);
+  if (!dueKey) return null;
+  const recurrence = getQuestRecurrence(quest);
+  return [
+    'BEGIN:VEVENT',
+    `UID:${quest.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(dueKey)}`,
+    `DTEND;VALUE=DATE:${toIcsDate(addDaysToDateKey(dueKey, 1))}`,
+    `SUMMARY:${escapeText(quest.title)}`,
+    ...(quest.description ? [`DESCRIPTION:${escapeText(quest.description)}`] : []),
+    ...(quest.tags.length > 0 ? [`CATEGORIES:${quest.tags.map(escapeText).join(',')}`] : []),
+    `PRIORITY:${DIFFICULTY_PRIORITY[quest.difficulty] ?? 5}`,
+    ...(recurrence ? [`RRULE:${recurrenceToRRule(recurrence)}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+function habitEvent(habit: Habit, stamp: string, now: Date, boundary?: DayBoundary | null): string[] | null {
+  const time = habit.reminderTime?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!time || habit.archived) return null;
+  const startKey = isoToDayKey(habit.createdAt, boundary) ?? getDayKey(now, boundary);
+  const start = dateKeyToLocalDate(startKey);
+  start.setHours(Number(time[1]), Number(time[2]), 0, 0);
+  const end = new Date(start.getTime() + HABIT_REMINDER_MINUTES * 60 * 1000);
+  // Floating local time: no Z, no TZID.
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const local = (date: Date) => `${toIcsDate(toLocalDateKey(date))}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+  return [
+    'BEGIN:VEVENT',
+    `UID:habit-${habit.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${local(start)}`,
+    `DTEND:${local(end)}`,
+    `SUMMARY:${escapeText(habit.title)}`,
+    ...(habit.description ? [`DESCRIPTION:${escapeText(habit.description)}`] : []),
+    'CATEGORIES:habit',
+    `RRULE:${habitRRule(habit)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+export interface IcsExportOptions {
+  /** Habits whose reminders are added as repeating events; none when unset. */
+  habits?: Habit[];
+  now?: Date;
+  /** The user's day boundary; due days are read in device time when unset. */
+  boundary?: DayBoundary | null;
+}
+
+/** Calendar with every pending quest that has a due date. */
+export function createQuestCalendar(
+  quests: Quest[],
+  { habits = [], now = new Date(), boundary }: IcsExportOptions = {}
+): string {
+  const stamp = toIcsTimestamp(now);
+  const events = [
+    ...quests.filter((q) => q.status !== 'completed').map((q) => questEvent(q, stamp, boundary)),
+    ...habits.map((h) => habitEvent(h, stamp, now, boundary)),
+  ].filter((event): event is string[] => event !== null);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:LevelDay Quests',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+/** Pending quests (and reminder habits) that `createQuestCalendar` would include. */
+export function countCalendarEvents(quests: Quest[], habits: Habit[] = []): number {
+  const now = new Date();
+  const stamp = toIcsTimestamp(now);
+  return (
+    quests.filter((q) => q.status !== 'completed' && questEvent(q, stamp)).length +
+    habits.filter((h) => habitEvent(h, stamp, now)).length
+  );
+}
+
+export const getIcsFileName = (todayKey: string) => `levelday-quests-${todayKey}.ics`;
+
+interface IcsComponent {
+  type: 'VEVENT' | 'VTODO';
+  /** Property values by name; parameters are not needed and dropped. */
+  props: Map<string, string[]>;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/** Splits a list value on commas that are not escaped. */
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\') i++;
+    else if (value[i] === ',') {
+      items.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(value.slice(start));
+  return items.map(unescapeText);
+}
+
+function parseLine(line: string): { name: string; value: string } | null {
+  // The value starts at the first colon outside a quoted parameter value.
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      return { name: line.slice(0, i).split(';')[0].toUpperCase(), value: line.slice(i + 1) };
+    }
+  }
+  return null;
+}
+
+function parseComponents(text: string): IcsComponent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('The file is not an iCalendar (.ics) file.');
+  }
+
+  const components: IcsComponent[] = [];
+  // Nested components (alarms, time zones) are skipped.
+  const stack: string[] = [];
+  let current: IcsComponent | null = null;
+  for (const line of lines) {
+    const parsed = parseLine(line);
+    if (!parsed) continue;
+    const { name, value } = parsed;
+    if (name === 'BEGIN') {
+      const type = value.trim().toUpperCase();
+      stack.push(type);
+      if ((type === 'VEVENT' || type === 'VTODO') && stack.length === 2) current = { type, props: new Map() };
+    } else if (name === 'END') {
+      if (stack.pop() !== undefined && stack.length === 1 && current) {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && stack.length === 2) {
+      current.props.set(name, [...(current.props.get(name) ?? []), value]);
+    }
+  }
+  return components;
+}
+
+/** Day key of a DATE or DATE-TIME value. UTC times are moved to the user's day. */
+function parseIcsDay(value: string | undefined, boundary?: DayBoundary | null): string | null {
+  const match = value?.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (utc) return getDayKey(new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss)), boundary);
+  // Floating and TZID times: the wall-clock date is the day the user sees.
+  return `${y}-${m}-${d}`;
+}
+
+function priorityToDifficulty(value: string | undefined): QuestDifficulty {
+  const priority = Number(value);
+  if (!priority) return 'normal';
+  if (priority <= 4) return 'hard';
+  if (priority >= 6) return 'easy';
+  return 'normal';
+}
+
+/**
+ * Day of the `count`th occurrence of a series starting on `startKey`, which
+ * is always the first (RFC 5545 counts DTSTART). Null if it cannot be found.
+ */
+function getCountEnd(recurrence: QuestRecurrence, startKey: string, count: number): string | null {
+  let key: string | null = startKey;
+  for (let i = 1; i < count && key; i++) key = getNextOccurrence(recurrence, addDaysToDateKey(key, 1));
+  return key;
+}
+
+/**
+ * Maps an RRULE onto the quest recurrence kinds. Returns `null` with a
+ * reason when the rule has no equivalent. `endKey` is the day of the last
+ * occurrence, from UNTIL or COUNT, when the series ends.
+ */
+function rruleToRecurrence(
+  value: string,
+  startKey: string,
+  boundary?: DayBoundary | null
+): { recurrence: QuestRecurrence | null; unsupported?: string; endKey?: string } {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) rule[key.toUpperCase()] = val.toUpperCase();
+  }
+  const mapped = mapRepeatRule(rule, startKey);
+  const untilKey = rule.UNTIL ? parseIcsDay(rule.UNTIL, boundary) : null;
+  if (untilKey) return { ...mapped, endKey: untilKey };
+  if (!rule.COUNT || !mapped.recurrence) return mapped;
+
+  const count = Number(rule.COUNT);
+  const endKey = Number.isInteger(count) && count > 0 ? getCountEnd(mapped.recurrence, startKey, count) : null;
+  if (!endKey) return { recurrence: null, unsupported: 'unreadable repeat count' };
+  return { ...mapped, endKey };
+}
+
+/** The FREQ part of an RRULE as a quest recurrence. */
+function mapRepeatRule(
+  rule: Record<string, string>,
+  startKey: string
+): { recurrence: QuestRecurrence | null; unsupported?: string } {
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const startWeekday = dateKeyToLocalDate(startKey).getDay();
+
+  switch (rule.FREQ) {
+    case 'DAILY':
+      return { recurrence: interval === 1 ? { kind: 'daily' } : { kind: 'interval', everyDays: interval, anchor: startKey } };
+    case 'WEEKLY': {
+      const days = rule.BYDAY
+        ? rule.BYDAY.split(',').map((day) => ICS_DAYS.indexOf(day.slice(-2)))
+        : [startWeekday];
+      if (days.some((day) => day < 0)) return { recurrence: null, unsupported: 'unreadable weekdays' };
+      if (interval === 1) return { recurrence: { kind: 'weekly', weekdays: [...new Set(days)].sort((a, b) => a - b) } };
+      if (days.length === 1) {
+        // Every N weeks on one weekday: anchor on the first such day.
+        const anchor = getNextOccurrence({ kind: 'weekly', weekdays: days }, startKey) ?? startKey;
+        return { recurrence: { kind: 'interval', everyDays: 7 * interval, anchor } };
+      }
+      return { recurrence: null, unsupported: `every ${interval} weeks on several days` };
+    }
+    case 'MONTHLY': {
+      if (interval !== 1) return { recurrence: null, unsupported: `every ${interval} months` };
+      if (rule.BYDAY) return { recurrence: null, unsupported: 'monthly on a weekday' };
+      const dayOfMonth = rule.BYMONTHDAY ? Number(rule.BYMONTHDAY) : dateKeyToLocalDate(startKey).getDate();
+      if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+        return { recurrence: null, unsupported: 'monthly on several or counted-back days' };
+      }
+      return { recurrence: { kind: 'monthly', dayOfMonth } };
+    }
+    default:
+      return { recurrence: null, unsupported: rule.FREQ ? `${rule.FREQ.toLowerCase()} repeats` : 'unreadable repeat rule' };
+  }
+}
+
+/** An event that was skipped, or imported with changes, and why. */
+export interface IcsImportNote {
+  title: string;
+  reason: string;
+}
+
+export interface IcsImport {
+  quests: Quest[];
+  skipped: IcsImportNote[];
+  /** Imported quests whose repeat rule could not be kept. */
+  notes: IcsImportNote[];
+}
+
+/**
+ * Turns calendar events into new pending quests. Past one-off events and
+ * events already in `existing` are skipped. "Today" and due days follow
+ * `boundary`, the user's day boundary, as elsewhere in the app. Throws an `Error` with a
+ * message fit to show the user when the text is not a calendar.
+ */
+export function importQuestsFromIcs(
+  text: string,
+  existing: Quest[],
+  now: Date = new Date(),
+  boundary?: DayBoundary | null
+): IcsImport {
+  const todayKey = getDayKey(now, boundary);
+  const existingIds = new Set(existing.map((q) => q.id));
+  const existingKeys = new Set(
+    existing.map((q) => `${q.title.trim().toLowerCase()}|${isoToDayKey(q.dueDate, boundary)}`)
+  );
+  const result: IcsImport = { quests: [], skipped: [], notes: [] };
+
+  for (const component of parseComponents(text)) {
+    const get = (name: string) => component.props.get(name)?.[0];
+    const title = unescapeText(get('SUMMARY') ?? '').trim() || 'Untitled Quest';
+    const skip = (reason: string) => result.skipped.push({ title, reason });
+
+    const uid = get('UID')?.trim() ?? '';
+    if (uid.endsWith(`@${UID_DOMAIN}`)) {
+      if (uid.startsWith('habit-')) {
+        skip('habit reminder');
+        continue;
+      }
+      if (existingIds.has(uid.slice(0, -UID_DOMAIN.length - 1))) {
+        skip('already in your quests');
+        continue;
+      }
+    }
+    // Changed instances of a repeating event; the series itself is imported.
+    if (get('RECURRENCE-ID')) continue;
+
+    const status = get('STATUS')?.trim().toUpperCase();
+    if (status === 'CANCELLED') {
+      skip('cancelled');
+      continue;
+    }
+    if (status === 'COMPLETED') {
+      skip('already completed');
+      continue;
+    }
+
+    const startKey = parseIcsDay(
+      component.type === 'VTODO' ? get('DUE') ?? get('DTSTART') : get('DTSTART'),
+      boundary
+    );
+    if (!startKey) {
+      skip('no date');
+      continue;
+    }
+
+    let recurrence: QuestRecurrence | null = null;
+    let droppedRule: string | undefined;
+    let endKey: string | undefined;
+    const rrule = get('RRULE');
+    if (rrule) {
+      const mapped = rruleToRecurrence(rrule, startKey, boundary);
+      // A series that has ended is treated like a past one-off event.
+      if (!mapped.endKey || mapped.endKey >= todayKey) {
+        recurrence = mapped.recurrence;
+        droppedRule = mapped.unsupported;
+        endKey = mapped.endKey;
+      }
+    }
+
+    // Repeating quests start at their next occurrence, like new quests do.
+    const dueKey = recurrence && startKey < todayKey ? getNextOccurrence(recurrence, todayKey) : startKey;
+    if (!dueKey || dueKey < todayKey) {
+      skip('in the past');
+      continue;
+    }
+
+    const key = `${title.toLowerCase()}|${dueKey}`;
+    if (existingKeys.has(key)) {
+      skip('already in your quests');
+      continue;
+    }
+    existingKeys.add(key);
+
+    const difficulty = priorityToDifficulty(get('PRIORITY'));
+    const tags = [
+      ...new Set(
+        (component.props.get('CATEGORIES') ?? [])
+          .flatMap(splitList)
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      ),
+    ];
+    const description = unescapeText(get('DESCRIPTION') ?? '').trim();
+    result.quests.push({
+      id: createId('quest'),
+      title,
+      description: description || undefined,
+      difficulty,
+      status: 'pending',
+      xpReward: getXPForDifficulty(difficulty),
+      dueDate: occurrenceDueDateISO(dueKey),
+      tags,
+      subtasks: [],
+      createdAt: now.toISOString(),
+      recurrence: recurrence ?? undefined,
+    });
+    if (droppedRule) {
+      result.notes.push({ title, reason: `${droppedRule}; imported as a one-off quest` });
+    } else if (recurrence && endKey) {
+      // Quest recurrences have no end date, so a series that stops is flagged.
+      const end = format(dateKeyToLocalDate(endKey), 'MMM d, yyyy');
+      result.notes.push({ title, reason: `the series ends on ${end}, but the quest keeps repeating after that` });
+    }
+  }
+
+  return result;
+}
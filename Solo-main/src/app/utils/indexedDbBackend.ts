@@ -0,0 +1,93 @@
+import { applyChanges, RemoteDocument } from './sync';
+import { StorageBackend } from './storageBackend';
+
+/**
+ * IndexedDB storage backend. Each user's document is one record in the
+ * `documents` store, keyed by user id. IndexedDB has no size limit worth
+ * worrying about here, so long histories stay local-first. Other tabs are
+ * told about writes over a BroadcastChannel.
+ */
+
+const DB_NAME = 'levelday';
+const DB_VERSION = 1;
+const STORE_NAME = 'documents';
+const CHANNEL_NAME = 'levelday-documents';
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export function createIndexedDbBackend(): StorageBackend {
+  // Opened on first use so picking this backend at startup costs nothing.
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database = database ?? openDatabase();
+    // A failed open is retried on the next call.
+    database.catch(() => {
+      database = null;
+    });
+    return database;
+  };
+
+  const load = async (userId: string): Promise<RemoteDocument | null> => {
+    const transaction = (await getDatabase()).transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(userId);
+    await transactionDone(transaction);
+    return (request.result as RemoteDocument | undefined) ?? null;
+  };
+
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  return {
+    kind: 'indexeddb',
+    requiresNetwork: false,
+    load,
+    write: async (userId, changes) => {
+      const transaction = (await getDatabase()).transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      // Read and write in one transaction so concurrent tabs cannot interleave.
+      const current = store.get(userId);
+      current.onsuccess = () => {
+        store.put(applyChanges((current.result as RemoteDocument | undefined) ?? null, changes), userId);
+      };
+      await transactionDone(transaction);
+      channel?.postMessage({ userId });
+    },
+    subscribe: (userId, onDocument) => {
+      let stopped = false;
+      const reload = () => {
+        load(userId)
+          .then((doc) => {
+            if (!stopped) onDocument(doc ?? {}, { complete: true });
+          })
+          .catch((error) => console.error('Failed to load from IndexedDB:', error));
+      };
+      const onMessage = (event: MessageEvent<{ userId: string }>) => {
+        if (event.data?.userId === userId) reload();
+      };
+      channel?.addEventListener('message', onMessage);
+      reload();
+      return () => {
+        stopped = true;
+        channel?.removeEventListener('message', onMessage);
+      };
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { AppState } from '../types';
+import { makeQuest, makeState, makeUser } from '../test/fixtures';
+import { mergeIncoming, mergeStates, stampChanges } from './merge';
+
+const T1 = new Date('2026-10-01T10:00:00.000Z');
+const T2 = new Date('2026-10-01T11:00:00.000Z');
+const T3 = new Date('2026-10-01T12:00:00.000Z');
+
+const state = (extra: Partial<AppState> = {}): AppState =>
+  makeState({ quests: [makeQuest('a', 'A'), makeQuest('b', 'B')], ...extra });
+
+const titles = (s: AppState) => s.quests.map((q) => q.title).sort();
+
+describe('stampChanges', () => {
+  it('stamps only the entities that changed', () => {
+    const base = state();
+    const next = stampChanges(base, { ...base, quests: [makeQuest('a', 'A2'), base.quests[1]] }, T1);
+    expect(next.quests[0].updatedAt).toBe(T1.toISOString());
+    expect(next.quests[1]).toBe(base.quests[1]);
+    expect(next.user).toBe(base.user);
+  });
+
+  it('leaves navigation and other device-only changes untouched', () => {
+    const base = state();
+    const next = stampChanges(base, { ...base, currentPage: 'quests' }, T1);
+    expect(next.quests).toBe(base.quests);
+    expect(next.tombstones).toBeUndefined();
+  });
+
+  it('records tombstones for removed entities and mood entries', () => {
+    const base = state({ moodByDate: { '2026-10-01': 'happy' } });
+    const next = stampChanges(base, { ...base, quests: [base.quests[0]], moodByDate: {} }, T1);
+    expect(next.tombstones).toEqual([
+      { collection: 'quests', id: 'b', deletedAt: T1.toISOString() },
+      { collection: 'moods', id: '2026-10-01', deletedAt: T1.toISOString() },
+    ]);
+  });
+
+  it('drops the tombstone when a removed entity comes back', () => {
+    const base = state();
+    const removed = stampChanges(base, { ...base, quests: [base.quests[0]] }, T1);
+    const undone = stampChanges(removed, { ...removed, quests: base.quests }, T2);
+    expect(undone.tombstones).toEqual([]);
+  });
+
+  it('does not stamp a switch to another account', () => {
+    const base = state();
+    const other = state({ user: makeUser({ id: 'user-2' }), quests: [] });
+    expect(stampChanges(base, other, T1)).toBe(other);
+  });
+});
+
+describe('mergeStates', () => {
+  it('keeps the newer copy of each entity', () => {
+    const base = state();
+    const local = stampChanges(base, { ...base, quests: [makeQuest('a', 'A-local'), base.quests[1]] }, T2);
+    const remote = stampChanges(base, { ...base, quests: [base.quests[0], makeQuest('b', 'B-remote')] }, T1);
+    const remoteNewerA = stampChanges(base, { ...base, quests: [makeQuest('a', 'A-remote'), base.quests[1]] }, T3);
+
+    expect(titles(mergeStates(local, remote))).toEqual(['A-local', 'B-remote']);
+    expect(titles(mergeStates(local, remoteNewerA))).toEqual(['A-remote', 'B']);
+  });
+
+  it('breaks ties the same way on both sides', () => {
+    const base = state();
+    const left = stampChanges(base, { ...base, quests: [makeQuest('a', 'Left'), base.quests[1]] }, T1);
+    const right = stampChanges(base, { ...base, quests: [makeQuest('a', 'Right'), base.quests[1]] }, T1);
+
+    const merged = mergeStates(left, right);
+    expect(mergeStates(right, left).quests.find((q) => q.id === 'a')).toEqual(
+      merged.quests.find((q) => q.id === 'a')
+    );
+  });
+
+  it('adds entities that only one side has', () => {
+    const base = state();
+    const local = stampChanges(base, { ...base, quests: [...base.quests, makeQuest('c', 'C')] }, T1);
+    expect(titles(mergeStates(base, local))).toEqual(['A', 'B', 'C']);
+    expect(titles(mergeStates(local, base))).toEqual(['A', 'B', 'C']);
+  });
+
+  it('applies a delete that is newer than the last edit', () => {
+    const base = state();
+    const edited = stampChanges(base, { ...base, quests: [makeQuest('a', 'A'), makeQuest('b', 'B-edited')] }, T1);
+    const deleted = stampChanges(base, { ...base, quests: [base.quests[0]] }, T2);
+
+    const merged = mergeStates(edited, deleted);
+    expect(titles(merged)).toEqual(['A']);
+    expect(merged.tombstones).toEqual([{ collection: 'quests', id: 'b', deletedAt: T2.toISOString() }]);
+    expect(titles(mergeStates(deleted, edited))).toEqual(['A']);
+  });
+
+  it('resurrects an entity edited after it was deleted', () => {
+    const base = state();
+    const deleted = stampChanges(base, { ...base, quests: [base.quests[0]] }, T1);
+    const edited = stampChanges(base, { ...base, quests: [makeQuest('a', 'A'), makeQuest('b', 'B-edited')] }, T2);
+
+    const merged = mergeStates(deleted, edited);
+    expect(titles(merged)).toEqual(['A', 'B-edited']);
+    expect(merged.tombstones).toBeUndefined();
+  });
+
+  it('merges mood entries per date', () => {
+    const base = state({ moodByDate: {} });
+    const local = stampChanges(base, { ...base, moodByDate: { '2026-10-01': 'happy' } }, T1);
+    const remote = stampChanges(base, { ...base, moodByDate: { '2026-10-01': 'tired', '2026-10-02': 'calm' } }, T2);
+    expect(mergeStates(local, remote).moodByDate).toEqual({ '2026-10-01': 'tired', '2026-10-02': 'calm' });
+  });
+
+  it('takes the remote state wholesale for another account', () => {
+    const local = state({ currentPage: 'settings' });
+    const remote = state({ user: makeUser({ id: 'user-2' }), quests: [] });
+    const merged = mergeStates(local, remote);
+    expect(merged.user?.id).toBe('user-2');
+    expect(merged.currentPage).toBe('settings');
+  });
+});
+
+describe('mergeIncoming', () => {
+  it('returns local itself when nothing synced changed', () => {
+    const local = stampChanges(state(), { ...state(), quests: [makeQuest('a', 'A2'), makeQuest('b', 'B')] }, T1);
+    const incoming = { ...local, currentPage: 'stats', activeFocus: null };
+    expect(mergeIncoming(local, incoming)).toBe(local);
+  });
+
+  it('keeps local in-flight edits that are newer than the incoming copy', () => {
+    const base = state();
+    // Another device saved an older edit to `a` and added `c`...
+    const incoming = stampChanges(base, { ...base, quests: [makeQuest('a', 'A-remote'), base.quests[1], makeQuest('c', 'C')] }, T1);
+    // ...while this device edited `a` and `b` and has not synced yet.
+    const local = stampChanges(base, { ...base, quests: [makeQuest('a', 'A-local'), makeQuest('b', 'B-local')] }, T2);
+
+    const merged = mergeIncoming(local, incoming);
+    expect(titles(merged)).toEqual(['A-local', 'B-local', 'C']);
+    expect(merged.quests.slice(0, 2)).toEqual(local.quests);
+  });
+
+  it('keeps device-only fields from local', () => {
+    const local = state({ currentPage: 'focus', focusCycleCount: 3 });
+    const incoming = stampChanges(local, { ...local, quests: [makeQuest('a', 'A2'), makeQuest('b', 'B')] }, T1);
+    const merged = mergeIncoming(local, { ...incoming, currentPage: 'dashboard', focusCycleCount: 0 });
+    expect(merged.currentPage).toBe('focus');
+    expect(merged.focusCycleCount).toBe(3);
+    expect(titles(merged)).toEqual(['A2', 'B']);
+  });
+});
@@ -0,0 +1,247 @@
+import { AppState, SyncMeta, SyncedCollection, Tombstone } from '../types';
+import { toPersistedState } from './sync';
+
+/**
+ * Multi-device reconciliation.
+ *
+ * `stampChanges` runs on every local state update: entities (and mood
+ * entries) that changed get a fresh `updatedAt`, and removed ones leave a
+ * tombstone. `mergeStates` then reconciles a local and a remote copy per
+ * entity, last writer wins:
+ *
+ * - the copy with the later `updatedAt` wins; identical timestamps fall back
+ *   to comparing the serialized entities, so both devices pick the same one
+ * - a tombstone beats any copy last updated at or before the delete; an edit
+ *   made after the delete resurrects the entity and drops the tombstone
+ * - the focus timer and current page are device-local and stay as they are
+ *
+ * `mergeIncoming` wraps `mergeStates` for live updates from other tabs and
+ * devices: it keeps the local object when nothing synced changed, so echoes
+ * of our own writes do not bounce back and forth.
+ */
+
+type Entity = SyncMeta & { id: string };
+
+const ENTITY_COLLECTIONS = ['quests', 'habits', 'focusSessions', 'badges'] as const;
+
+/** Tombstones older than this are dropped; devices offline longer may resurrect deletes. */
+export const TOMBSTONE_TTL_DAYS = 90;
+
+const serialize = (value: unknown) => JSON.stringify(value) ?? '';
+
+/** Like `serialize`, but independent of object key order. */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+  }
+  return serialize(value);
+}
+
+function withoutMeta<T extends SyncMeta>(entity: T): Omit<T, 'updatedAt'> {
+  const { updatedAt: _updatedAt, ...rest } = entity;
+  return rest;
+}
+
+const tombstoneKey = (collection: SyncedCollection, id: string) => `${collection}:${id}`;
+
+function stampCollection<T extends Entity>(
+  before: T[],
+  after: T[],
+  collection: SyncedCollection,
+  stamp: string,
+  removed: Tombstone[]
+): T[] {
+  if (before === after) return after;
+  const previous = new Map(before.map((e) => [e.id, e]));
+  const stamped = after.map((entity) => {
+    const old = previous.get(entity.id);
+    previous.delete(entity.id);
+    if (old === entity) return entity;
+    if (old && serialize(withoutMeta(old)) === serialize(withoutMeta(entity))) return entity;
+    return { ...entity, updatedAt: stamp };
+  });
+  for (const id of previous.keys()) removed.push({ collection, id, deletedAt: stamp });
+  return stamped;
+}
+
+/**
+ * Stamps `updatedAt` on whatever changed between `prev` and `next` and
+ * records tombstones for removed entities. Switching accounts (or signing
+ * out) is not an edit, so it passes through untouched.
+ */
+export function stampChanges(prev: AppState, next: AppState, now: Date = new Date()): AppState {
+  if (prev === next || !prev.user || !next.user || prev.user.id !== next.user.id) return next;
+  const touched =
+    prev.user !== next.user ||
+    prev.moodByDate !== next.moodByDate ||
+    ENTITY_COLLECTIONS.some((c) => prev[c] !== next[c]);
+  if (!touched) return next;
+
+  const stamp = now.toISOString();
+  const removed: Tombstone[] = [];
+  const result: AppState = {
+    ...next,
+    quests: stampCollection(prev.quests, next.quests, 'quests', stamp, removed),
+    habits: stampCollection(prev.habits, next.habits, 'habits', stamp, removed),
+    focusSessions: stampCollection(prev.focusSessions, next.focusSessions, 'focusSessions', stamp, removed),
+    badges: stampCollection(prev.badges, next.badges, 'badges', stamp, removed),
+  };
+
+  if (prev.user !== next.user && serialize(withoutMeta(prev.user)) !== serialize(withoutMeta(next.user))) {
+    result.user = { ...next.user, updatedAt: stamp };
+  }
+
+  if (prev.moodByDate !== next.moodByDate) {
+    const before = prev.moodByDate ?? {};
+    const after = next.moodByDate ?? {};
+    const moodMeta = { ...(next.moodMeta ?? {}) };
+    for (const [date, mood] of Object.entries(after)) {
+      if (before[date] !== mood) moodMeta[date] = { updatedAt: stamp };
+    }
+    for (const date of Object.keys(before)) {
+      if (!(date in after)) {
+        delete moodMeta[date];
+        removed.push({ collection: 'moods', id: date, deletedAt: stamp });
+      }
+    }
+    result.moodMeta = moodMeta;
+  }
+
+  const present = new Set([
+    ...ENTITY_COLLECTIONS.flatMap((c) => result[c].map((e) => tombstoneKey(c, e.id))),
+    ...Object.keys(result.moodByDate ?? {}).map((date) => tombstoneKey('moods', date)),
+  ]);
+  const cutoff = new Date(now.getTime() - TOMBSTONE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const tombstones = [...(next.tombstones ?? []), ...removed].filter(
+    // Re-adding an entity (e.g. undo) cancels its tombstone.
+    (t) => t.deletedAt >= cutoff && !present.has(tombstoneKey(t.collection, t.id))
+  );
+  if (tombstones.length > 0 || next.tombstones) result.tombstones = tombstones;
+
+  return result;
+}
+
+/** Later `updatedAt` wins; ties are broken by content so every device agrees. */
+function pickNewer<T extends SyncMeta>(a: T, b: T): T {
+  const at = a.updatedAt ?? '';
+  const bt = b.updatedAt ?? '';
+  if (at !== bt) return at > bt ? a : b;
+  return serialize(a) >= serialize(b) ? a : b;
+}
+
+function mergeTombstones(a: Tombstone[] = [], b: Tombstone[] = []): Map<string, Tombstone> {
+  const merged = new Map<string, Tombstone>();
+  for (const t of [...a, ...b]) {
+    const key = tombstoneKey(t.collection, t.id);
+    const existing = merged.get(key);
+    if (!existing || t.deletedAt > existing.deletedAt) merged.set(key, t);
+  }
+  return merged;
+}
+
+function mergeCollection<T extends Entity>(
+  local: T[],
+  remote: T[],
+  collection: SyncedCollection,
+  tombstones: Map<string, Tombstone>
+): T[] {
+  const localById = new Map(local.map((e) => [e.id, e]));
+  const remoteById = new Map(remote.map((e) => [e.id, e]));
+  // Local order first, then entities only the remote copy has.
+  const ids = new Set([...localById.keys(), ...remoteById.keys()]);
+
+  const merged: T[] = [];
+  for (const id of ids) {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    const winner = l && r ? pickNewer(l, r) : (l ?? r)!;
+    const key = tombstoneKey(collection, id);
+    const tombstone = tombstones.get(key);
+    if (tombstone && tombstone.deletedAt >= (winner.updatedAt ?? '')) continue;
+    tombstones.delete(key);
+    merged.push(winner);
+  }
+  return merged;
+}
+
+/**
+ * Reconciles two copies of the same account's state. Which copy is "local"
+ * only matters for device-only fields (current page, running focus timer)
+ * and for list order.
+ */
+export function mergeStates(local: AppState, remote: AppState): AppState {
+  if (!local.user || !remote.user || local.user.id !== remote.user.id) {
+    return { ...remote, currentPage: local.currentPage };
+  }
+
+  const tombstones = mergeTombstones(local.tombstones, remote.tombstones);
+
+  // Mood entries: last writer wins per date.
+  const moodByDate: Record<string, string> = {};
+  const moodMeta: Record<string, SyncMeta> = {};
+  const dates = new Set([...Object.keys(local.moodByDate ?? {}), ...Object.keys(remote.moodByDate ?? {})]);
+  for (const date of dates) {
+    const l = local.moodByDate?.[date];
+    const r = remote.moodByDate?.[date];
+    const lEntry = l === undefined ? undefined : { mood: l, ...local.moodMeta?.[date] };
+    const rEntry = r === undefined ? undefined : { mood: r, ...remote.moodMeta?.[date] };
+    const winner = lEntry && rEntry ? pickNewer(lEntry, rEntry) : (lEntry ?? rEntry)!;
+    const key = tombstoneKey('moods', date);
+    const tombstone = tombstones.get(key);
+    if (tombstone && tombstone.deletedAt >= (winner.updatedAt ?? '')) continue;
+    tombstones.delete(key);
+    moodByDate[date] = winner.mood;
+    if (winner.updatedAt) moodMeta[date] = { updatedAt: winner.updatedAt };
+  }
+
+  const merged: AppState = {
+    ...toPersistedState(remote),
+    ...local,
+    user: pickNewer(local.user, remote.user),
+    quests: mergeCollection(local.quests, remote.quests, 'quests', tombstones),
+    habits: mergeCollection(local.habits, remote.habits, 'habits', tombstones),
+    focusSessions: mergeCollection(local.focusSessions, remote.focusSessions, 'focusSessions', tombstones),
+    badges: mergeCollection(local.badges, remote.badges, 'badges', tombstones),
+    isOnboarded: local.isOnboarded || remote.isOnboarded,
+  };
+  if (local.moodByDate || remote.moodByDate) merged.moodByDate = moodByDate;
+  if (local.moodMeta || remote.moodMeta) merged.moodMeta = moodMeta;
+
+  const lastDailyReset = [local.lastDailyReset, remote.lastDailyReset].filter(Boolean).sort().pop();
+  if (lastDailyReset) merged.lastDailyReset = lastDailyReset;
+
+  const remaining = [...tombstones.values()].sort((a, b) =>
+    tombstoneKey(a.collection, a.id).localeCompare(tombstoneKey(b.collection, b.id))
+  );
+  if (remaining.length > 0) merged.tombstones = remaining;
+  else delete merged.tombstones;
+
+  return merged;
+}
+
+/** Merges `incoming` into `local`, returning `local` itself when the synced content is unchanged. */
+export function mergeIncoming(local: AppState, incoming: AppState): AppState {
+  const merged = mergeStates(local, incoming);
+  return canonical(toPersistedState(merged)) === canonical(toPersistedState(local)) ? local : merged;
+}
+
+/**
+ * Applies the fields a form changed (`edited` vs. the `base` it was opened
+ * with) on top of `current`, so updates that arrived from elsewhere while
+ * the form was open are kept.
+ */
+export function rebaseEdit<T extends object>(base: T, edited: T, current: T): T {
+  const before = base as Record<string, unknown>;
+  const after = edited as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...(current as Record<string, unknown>) };
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (serialize(before[key]) === serialize(after[key])) continue;
+    if (after[key] === undefined) delete result[key];
+    else result[key] = after[key];
+  }
+  return result as T;
+}
@@ -34,7 +34,7 @@ export const mockQuests: Quest[] = [
       { id: "1-3", title: "Cool down (5 min)", completed: false },
     ],
     createdAt: new Date().toISOString(),
-    isDaily: true,
+    recurrence: { kind: "daily" },
   },
   {
     id: "2",
@@ -60,7 +60,7 @@ export const mockQuests: Quest[] = [
     tags: ["mindfulness", "health"],
     subtasks: [],
     createdAt: new Date().toISOString(),
-    isDaily: true,
+    recurrence: { kind: "daily" },
   },
 ];
 
@@ -97,7 +97,7 @@ export const mockHabits: Habit[] = [
     title: "Exercise",
     description: "Any physical activity",
     frequency: "weekly",
-    customDays: [1, 3, 5],
+    timesPerWeek: 3,
     currentStreak: 2,
     longestStreak: 8,
     xpPerCompletion: 20,
@@ -117,6 +117,7 @@ export const mockBadges: Badge[] = [
     isLocked: false,
     unlockedAt: new Date().toISOString(),
     requirement: "Complete 1 quest",
+    rule: { metric: "completedQuests", comparator: "gte", threshold: 1 },
   },
   {
     id: "2",
@@ -127,6 +128,7 @@ export const mockBadges: Badge[] = [
     isLocked: false,
     unlockedAt: new Date().toISOString(),
     requirement: "Get a 7-day streak",
+    rule: { metric: "longestStreak", comparator: "gte", threshold: 7 },
   },
   {
     id: "3",
@@ -136,6 +138,7 @@ export const mockBadges: Badge[] = [
     iconType: "trophy",
     isLocked: true,
     requirement: "Complete 50 quests",
+    rule: { metric: "completedQuests", comparator: "gte", threshold: 50 },
   },
   {
     id: "4",
@@ -145,6 +148,7 @@ export const mockBadges: Badge[] = [
     iconType: "zap",
     isLocked: true,
     requirement: "Complete 100 focus sessions",
+    rule: { metric: "focusSessions", comparator: "gte", threshold: 100 },
   },
   {
     id: "5",
@@ -154,5 +158,36 @@ export const mockBadges: Badge[] = [
     iconType: "crown",
     isLocked: true,
     requirement: "Reach level 50",
+    rule: { metric: "level", comparator: "gte", threshold: 50 },
+  },
+  {
+    id: "6",
+    name: "Deep Diver",
+    description: "Focus for 10 hours in total",
+    rarity: "rare",
+    iconType: "zap",
+    isLocked: true,
+    requirement: "Focus for 600 minutes",
+    rule: { metric: "totalFocusMinutes", comparator: "gte", threshold: 600 },
+  },
+  {
+    id: "7",
+    name: "Eager Student",
+    description: "Complete 10 learning quests in a month",
+    rarity: "uncommon",
+    iconType: "award",
+    isLocked: true,
+    requirement: "Complete 10 quests tagged learning within 30 days",
+    rule: { metric: "tagCompletedQuests", comparator: "gte", threshold: 10, tag: "learning", windowDays: 30 },
+  },
+  {
+    id: "8",
+    name: "Steady Rhythm",
+    description: "Keep a weekly habit going for 4 weeks",
+    rarity: "uncommon",
+    iconType: "flame",
+    isLocked: true,
+    requirement: "Get a 4-week streak",
+    rule: { metric: "longestWeeklyStreak", comparator: "gte", threshold: 4 },
   },
 ];
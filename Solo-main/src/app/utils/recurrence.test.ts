@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { makeQuest } from '../test/fixtures';
+import { advanceRecurringQuest } from './recurrence';
+
+const JAKARTA = { timeZone: 'Asia/Jakarta' };
+
+// Completed at 01:00 on Oct 20 in Jakarta, still Oct 19 in UTC.
+const dailyQuest = makeQuest('quest-1', 'Stretch', {
+  status: 'completed',
+  completedAt: '2026-10-19T18:00:00.000Z',
+  recurrence: { kind: 'daily' },
+});
+
+describe('advanceRecurringQuest', () => {
+  it('reads the current occurrence day through the day boundary', () => {
+    const result = advanceRecurringQuest(dailyQuest, '2026-10-20', JAKARTA);
+    expect(result.quest).toBe(dailyQuest);
+  });
+
+  it('records the completed occurrence on the boundary day', () => {
+    const result = advanceRecurringQuest(dailyQuest, '2026-10-21', JAKARTA);
+    expect(result.completed).toBe(1);
+    expect(result.missed).toBe(0);
+    expect(result.quest.occurrences?.map((o) => o.dueDate)).toEqual(['2026-10-20']);
+    expect(result.quest.status).toBe('pending');
+  });
+});
@@ -0,0 +1,186 @@
+import { differenceInCalendarDays, getDaysInMonth } from 'date-fns';
+import { Quest, QuestRecurrence } from '../types';
+import { DayBoundary, addDaysToDateKey, dateKeyToLocalDate, isoToDayKey, makeDueDateISO } from './date';
+
+/**
+ * Recurring quests.
+ *
+ * A recurring quest holds its *current* occurrence in the usual quest fields
+ * (`status`, `dueDate`, `subtasks`, ...). When the due day of that occurrence
+ * has passed, `advanceRecurringQuest` moves it into `occurrences` (completed
+ * or missed), records any occurrences skipped while the app was closed as
+ * missed, and resets the quest for the next occurrence on or after today.
+ */
+
+/** Longest gap between two occurrences we ever need to search. */
+const MAX_LOOKAHEAD_DAYS = 400;
+/** Older history is dropped so a long-lived daily quest stays small. */
+const MAX_OCCURRENCE_HISTORY = 366;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Recurrence of a quest, mapping the legacy `isDaily`/`isWeekly` flags. */
+export function getQuestRecurrence(quest: Quest): QuestRecurrence | null {
+  if (quest.recurrence) return quest.recurrence;
+  if (quest.isDaily) return { kind: 'daily' };
+  if (quest.isWeekly) return { kind: 'weekly', weekdays: [1] };
+  return null;
+}
+
+function getIntervalDays(recurrence: Extract<QuestRecurrence, { kind: 'interval' }>): number {
+  return Math.min(365, Math.max(1, Math.round(recurrence.everyDays)));
+}
+
+/** Whether an occurrence of `recurrence` falls on the given day key. */
+export function isOccurrenceDay(recurrence: QuestRecurrence, key: string): boolean {
+  const date = dateKeyToLocalDate(key);
+  switch (recurrence.kind) {
+    case 'daily':
+      return true;
+    case 'weekly': {
+      // No weekday picked behaves like "every Monday".
+      const weekdays = recurrence.weekdays.length > 0 ? recurrence.weekdays : [1];
+      return weekdays.includes(date.getDay());
+    }
+    case 'monthly': {
+      const day = Math.min(Math.max(1, Math.round(recurrence.dayOfMonth)), getDaysInMonth(date));
+      return date.getDate() === day;
+    }
+    case 'interval': {
+      const diff = differenceInCalendarDays(date, dateKeyToLocalDate(recurrence.anchor));
+      return diff >= 0 && diff % getIntervalDays(recurrence) === 0;
+    }
+    default:
+      return false;
+  }
+}
+
+/** First occurrence on or after `fromKey`, or null if none is found. */
+export function getNextOccurrence(recurrence: QuestRecurrence, fromKey: string): string | null {
+  let key = fromKey;
+  if (recurrence.kind === 'interval' && key < recurrence.anchor) key = recurrence.anchor;
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+    if (isOccurrenceDay(recurrence, key)) return key;
+    key = addDaysToDateKey(key, 1);
+  }
+  return null;
+}
+
+/** Human readable summary, e.g. "Every Mon, Thu" or "Monthly on day 15". */
+export function describeRecurrence(recurrence: QuestRecurrence): string {
+  switch (recurrence.kind) {
+    case 'daily':
+      return 'Every day';
+    case 'weekly': {
+      const weekdays = recurrence.weekdays.length > 0 ? recurrence.weekdays : [1];
+      // Monday-first, matching the weekday picker.
+      const sorted = [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+      return `Every ${sorted.map((d) => WEEKDAY_LABELS[d]).join(', ')}`;
+    }
+    case 'monthly':
+      return `Monthly on day ${recurrence.dayOfMonth}`;
+    case 'interval': {
+      const days = getIntervalDays(recurrence);
+      return days === 1 ? 'Every day' : `Every ${days} days`;
+    }
+    default:
+      return '';
+  }
+}
+
+/** ISO due date for an occurrence day, anchored at local noon. */
+export function occurrenceDueDateISO(key: string): string {
+  return makeDueDateISO(dateKeyToLocalDate(key));
+}
+
+export interface RecurrenceRollover {
+  quest: Quest;
+  completed: number;
+  missed: number;
+}
+
+/**
+ * Brings a recurring quest up to `todayKey`, a day key under `boundary`.
+ * Safe to call repeatedly: a quest whose current occurrence is not yet
+ * overdue is returned unchanged.
+ */
+export function advanceRecurringQuest(
+  quest: Quest,
+  todayKey: string,
+  boundary?: DayBoundary | null
+): RecurrenceRollover {
+  const recurrence = getQuestRecurrence(quest);
+  const unchanged = { quest, completed: 0, missed: 0 };
+  if (!recurrence) return unchanged;
+
+  // Legacy daily quests may have no due date; fall back to the completion day.
+  const dueKey =
+    isoToDayKey(quest.dueDate, boundary) ??
+    (quest.status === 'completed' ? isoToDayKey(quest.completedAt, boundary) : null);
+
+  if (dueKey && dueKey >= todayKey) return unchanged;
+
+  const nextKey = getNextOccurrence(recurrence, todayKey);
+  const occurrences = [...(quest.occurrences ?? [])];
+  let completed = 0;
+  let missed = 0;
+
+  if (dueKey) {
+    if (quest.status === 'completed') {
+      occurrences.push({ dueDate: dueKey, completedAt: quest.completedAt, xpEarned: quest.xpReward });
+      completed++;
+    } else {
+      occurrences.push({ dueDate: dueKey, xpEarned: 0 });
+      missed++;
+    }
+
+    // Occurrences that came and went while the app was closed.
+    for (
+      let key = getNextOccurrence(recurrence, addDaysToDateKey(dueKey, 1));
+      key && key < todayKey;
+      key = getNextOccurrence(recurrence, addDaysToDateKey(key, 1))
+    ) {
+      occurrences.push({ dueDate: key, xpEarned: 0 });
+      missed++;
+    }
+  }
+
+  return {
+    quest: {
+      ...quest,
+      status: 'pending',
+      completedAt: undefined,
+      dueDate: nextKey ? occurrenceDueDateISO(nextKey) : undefined,
+      subtasks: quest.subtasks.map((st) => ({ ...st, completed: false })),
+      occurrences: occurrences.slice(-MAX_OCCURRENCE_HISTORY),
+    },
+    completed,
+    missed,
+  };
+}
+
+export interface QuestCompletion {
+  quest: Quest;
+  completedAt?: string;
+  xpEarned: number;
+}
+
+/**
+ * Every completion of every quest, including past occurrences of recurring
+ * quests, so stats and badges keep counting them after a reset.
+ */
+export function getQuestCompletions(quests: Quest[]): QuestCompletion[] {
+  const completions: QuestCompletion[] = [];
+  for (const quest of quests) {
+    for (const occurrence of quest.occurrences ?? []) {
+      if (occurrence.completedAt) {
+        completions.push({ quest, completedAt: occurrence.completedAt, xpEarned: occurrence.xpEarned });
+      }
+    }
+    if (quest.status === 'completed') {
+      completions.push({ quest, completedAt: quest.completedAt, xpEarned: quest.xpReward });
+    }
+  }
+  return completions;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { upgradeState } from './schema';
+import { applyGameAction } from './gameEngine';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+const rawUser = (extra: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  name: 'Ari',
+  email: 'ari@example.com',
+  userClass: 'warrior',
+  level: 1,
+  xp: 0,
+  xpToNextLevel: 100,
+  totalXP: 0,
+  joinedDate: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const rawQuest = (extra: Record<string, unknown> = {}) => ({
+  id: 'quest-1',
+  title: 'Stretch',
+  difficulty: 'easy',
+  status: 'pending',
+  xpReward: 10,
+  tags: [],
+  subtasks: [],
+  createdAt: '2026-10-01T00:00:00.000Z',
+  dueDate: '2026-10-15T12:00:00.000Z',
+  ...extra,
+});
+
+const upgrade = (extra: Record<string, unknown>) =>
+  upgradeState({ schemaVersion: 1, user: rawUser(), quests: [], habits: [], focusSessions: [], badges: [], ...extra }, NOW)!;
+
+const paths = (result: ReturnType<typeof upgrade>) => result.report.repairs.map((repair) => repair.path);
+
+describe('upgradeState', () => {
+  it('removes a weekly rule without weekdays, so the rollover does not crash', () => {
+    const result = upgrade({ quests: [rawQuest({ recurrence: { kind: 'weekly' } })] });
+    expect(result.state.quests[0].recurrence).toBeUndefined();
+    expect(paths(result)).toEqual(['quests[0].recurrence']);
+    expect(() => applyGameAction(result.state, { type: 'dayRolledOver' }, NOW)).not.toThrow();
+  });
+
+  it('keeps valid repeat rules and drops weekdays out of range', () => {
+    const result = upgrade({
+      quests: [
+        rawQuest({ id: 'a', recurrence: { kind: 'weekly', weekdays: [1, 7, 'x', 3] } }),
+        rawQuest({ id: 'b', recurrence: { kind: 'monthly', dayOfMonth: 31 } }),
+        rawQuest({ id: 'c', recurrence: { kind: 'interval', everyDays: 3, anchor: '2026-10-01' } }),
+      ],
+    });
+    expect(result.state.quests.map((q) => q.recurrence)).toEqual([
+      { kind: 'weekly', weekdays: [1, 3] },
+      { kind: 'monthly', dayOfMonth: 31 },
+      { kind: 'interval', everyDays: 3, anchor: '2026-10-01' },
+    ]);
+    expect(paths(result)).toEqual(['quests[0].recurrence.weekdays[1]', 'quests[0].recurrence.weekdays[2]']);
+  });
+
+  it.each([
+    { kind: 'hourly' },
+    { kind: 'monthly', dayOfMonth: 0 },
+    { kind: 'monthly', dayOfMonth: 32 },
+    { kind: 'interval', everyDays: 0, anchor: '2026-10-01' },
+    { kind: 'interval', everyDays: 2, anchor: '2026-13-01' },
+    { kind: 'interval', everyDays: 2 },
+    'daily',
+  ])('removes the unreadable rule %j', (recurrence) => {
+    const result = upgrade({ quests: [rawQuest({ recurrence })] });
+    expect(result.state.quests[0].recurrence).toBeUndefined();
+    expect(paths(result)).toEqual(['quests[0].recurrence']);
+  });
+
+  it('drops occurrences that are not keyed by a day', () => {
+    const result = upgrade({
+      quests: [
+        rawQuest({
+          recurrence: { kind: 'daily' },
+          occurrences: [
+            { dueDate: '2026-10-10', xpEarned: 10, completedAt: '2026-10-10T08:00:00.000Z' },
+            { dueDate: '2026-10-11T12:00:00.000Z', xpEarned: 0 },
+            '2026-10-12',
+            { dueDate: '2026-10-13' },
+          ],
+        }),
+      ],
+    });
+    expect(result.state.quests[0].occurrences).toEqual([
+      { dueDate: '2026-10-10', xpEarned: 10, completedAt: '2026-10-10T08:00:00.000Z' },
+      { dueDate: '2026-10-13', xpEarned: 0 },
+    ]);
+    expect(() => applyGameAction(result.state, { type: 'dayRolledOver' }, NOW)).not.toThrow();
+  });
+
+  it('clamps or removes a weekly habit target', () => {
+    const habit = (id: string, timesPerWeek: unknown) => ({
+      id,
+      title: 'Run',
+      frequency: 'weekly',
+      currentStreak: 0,
+      longestStreak: 0,
+      xpPerCompletion: 10,
+      completedDates: [],
+      createdAt: '2026-10-01T00:00:00.000Z',
+      timesPerWeek,
+    });
+    const result = upgrade({ habits: [habit('a', 3), habit('b', 12), habit('c', 'often')] });
+    expect(result.state.habits.map((h) => h.timesPerWeek)).toEqual([3, 7, undefined]);
+    expect(paths(result)).toEqual(['habits[1].timesPerWeek', 'habits[2].timesPerWeek']);
+  });
+
+  it('repairs focus profiles and drops unreadable ones', () => {
+    const result = upgrade({
+      user: rawUser({
+        focusProfiles: [
+          { id: 'p1', name: 'Sprint', focusMinutes: 500, shortBreakMinutes: 'five', longBreakMinutes: 20, longBreakEvery: 3 },
+          { name: 'No id' },
+          null,
+        ],
+      }),
+    });
+    expect(result.state.user?.focusProfiles).toEqual([
+      {
+        id: 'p1',
+        name: 'Sprint',
+        focusMinutes: 180,
+        shortBreakMinutes: 5,
+        longBreakMinutes: 20,
+        longBreakEvery: 3,
+        autoStartBreaks: false,
+        autoStartFocus: false,
+      },
+    ]);
+    expect(paths(result)).toEqual([
+      'user.focusProfiles[0].shortBreakMinutes',
+      'user.focusProfiles[1]',
+      'user.focusProfiles[2]',
+    ]);
+  });
+
+  it('reports nothing for valid data', () => {
+    const result = upgrade({
+      quests: [rawQuest({ recurrence: { kind: 'weekly', weekdays: [1] }, occurrences: [] })],
+    });
+    expect(result.report.repairs).toEqual([]);
+  });
+});
+
+describe('upgradeState ids', () => {
+  it('gives a record without an id the same id on every load', () => {
+    const raw = {
+      quests: [rawQuest({ id: undefined })],
+      focusSessions: [{ startTime: '2026-10-18T08:00:00.000Z', duration: 25 }],
+    };
+    const first = upgrade(raw).state;
+    const second = upgrade(JSON.parse(JSON.stringify(raw))).state;
+    expect(first.quests[0].id).toMatch(/^quest_/);
+    expect(second.quests[0].id).toBe(first.quests[0].id);
+    expect(second.focusSessions[0].id).toBe(first.focusSessions[0].id);
+  });
+
+  it('tells apart records that differ', () => {
+    const { quests } = upgrade({
+      quests: [rawQuest({ id: undefined }), rawQuest({ id: undefined, title: 'Read' })],
+    }).state;
+    expect(quests[0].id).not.toBe(quests[1].id);
+  });
+});
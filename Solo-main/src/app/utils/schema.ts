@@ -0,0 +1,494 @@
+import {
+  AppState,
+  Badge,
+  FocusProfile,
+  FocusSession,
+  Habit,
+  Quest,
+  QuestOccurrence,
+  QuestRecurrence,
+  Subtask,
+  User,
+} from '../types';
+import { getXPForDifficulty } from './xp';
+import { normalizeFocusProfile } from './focusProfiles';
+
+/**
+ * Persisted state schema.
+ *
+ * Saved state carries a `schemaVersion`. On load, `upgradeState` runs the
+ * migrations between that version and `SCHEMA_VERSION` in order, then
+ * validates the result and repairs what it can (missing arrays, bad dates,
+ * unknown enum values). Entities too broken to repair are dropped. Every
+ * repair is listed in the returned report.
+ */
+
+export const SCHEMA_VERSION = 1;
+
+type RawState = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from. State saved before
+ * versioning counts as version 0.
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // v0 -> v1: the `isDaily`/`isWeekly` quest flags become `recurrence`.
+  0: (state) => ({
+    ...state,
+    quests: Array.isArray(state.quests)
+      ? state.quests.map((quest) => {
+          if (!isRecord(quest) || (!quest.isDaily && !quest.isWeekly)) return quest;
+          const { isDaily, isWeekly, ...rest } = quest;
+          if (rest.recurrence) return rest;
+          return { ...rest, recurrence: isDaily ? { kind: 'daily' } : { kind: 'weekly', weekdays: [1] } };
+        })
+      : state.quests,
+  }),
+};
+
+export interface SchemaRepair {
+  /** Where the problem was, e.g. `quests[3].tags`. */
+  path: string;
+  problem: string;
+}
+
+export interface LoadReport {
+  /** Version the data was saved with; 0 for unversioned data. */
+  fromVersion: number;
+  repairs: SchemaRepair[];
+}
+
+export interface UpgradedState {
+  state: AppState;
+  report: LoadReport;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isDate = (value: unknown): value is string => isString(value) && !Number.isNaN(Date.parse(value));
+const isInteger = (value: unknown, min: number, max = Infinity): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+/** A YYYY-MM-DD day key naming a real calendar day. */
+function isDayKey(value: unknown): value is string {
+  const match = isString(value) ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  if (!match) return false;
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+/** Collects repairs for one load, with helpers that repair single fields. */
+function createRepairer() {
+  const repairs: SchemaRepair[] = [];
+  const note = (path: string, problem: string) => {
+    repairs.push({ path, problem });
+  };
+
+  return {
+    repairs,
+    note,
+
+    string(entity: Record<string, unknown>, key: string, path: string, fallback: string): string {
+      if (isString(entity[key])) return entity[key] as string;
+      note(`${path}.${key}`, `missing text, set to "${fallback}"`);
+      return fallback;
+    },
+
+    number(entity: Record<string, unknown>, key: string, path: string, fallback: number): number {
+      if (isNumber(entity[key])) return entity[key] as number;
+      note(`${path}.${key}`, `not a number, set to ${fallback}`);
+      return fallback;
+    },
+
+    oneOf<T extends string>(
+      entity: Record<string, unknown>,
+      key: string,
+      path: string,
+      allowed: readonly T[],
+      fallback: T
+    ): T {
+      if (allowed.includes(entity[key] as T)) return entity[key] as T;
+      note(`${path}.${key}`, `unknown value ${JSON.stringify(entity[key])}, set to "${fallback}"`);
+      return fallback;
+    },
+
+    /** Required date; falls back to `fallback` when missing or unparsable. */
+    date(entity: Record<string, unknown>, key: string, path: string, fallback: string): string {
+      if (isDate(entity[key])) return entity[key] as string;
+      note(`${path}.${key}`, 'invalid date, reset');
+      return fallback;
+    },
+
+    /** Optional date; removed when unparsable. */
+    optionalDate(entity: Record<string, unknown>, key: string, path: string): string | undefined {
+      const value = entity[key];
+      if (value === undefined || value === null) return undefined;
+      if (isDate(value)) return value;
+      note(`${path}.${key}`, 'invalid date, removed');
+      return undefined;
+    },
+
+    /** Array of valid items; invalid items are dropped. */
+    list<T>(value: unknown, path: string, repairItem: (item: unknown, path: string) => T | null): T[] {
+      if (!Array.isArray(value)) {
+        note(path, value === undefined ? 'missing, set to empty' : 'not a list, reset to empty');
+        return [];
+      }
+      const items: T[] = [];
+      value.forEach((item, index) => {
+        const repaired = repairItem(item, `${path}[${index}]`);
+        if (repaired) items.push(repaired);
+        else note(`${path}[${index}]`, 'unreadable, dropped');
+      });
+      return items;
+    },
+  };
+}
+
+type Repairer = ReturnType<typeof createRepairer>;
+
+/** Copies `value` into `target[key]` only when defined, since Firestore rejects `undefined`. */
+function setOptional<T extends object, K extends keyof T>(target: T, key: K, value: T[K] | undefined) {
+  if (value === undefined) delete target[key];
+  else target[key] = value;
+}
+
+/** FNV-1a, as a short base-36 string. */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * The entity's id, or one derived from `seed` when it has none. Every
+ * device loading the same record must arrive at the same id, or sync
+ * would treat the copies as two entities.
+ */
+function repairId(
+  r: Repairer,
+  entity: Record<string, unknown>,
+  path: string,
+  prefix: string,
+  seed: unknown[]
+): string {
+  if (isString(entity.id) && entity.id) return entity.id;
+  const id = `${prefix}_${hashText(JSON.stringify(seed))}`;
+  r.note(`${path}.id`, `missing id, set to "${id}"`);
+  return id;
+}
+
+function repairStrings(r: Repairer, value: unknown, path: string): string[] {
+  return r.list(value, path, (item) => (isString(item) ? item : null));
+}
+
+function repairUser(r: Repairer, raw: unknown, now: string): User | null {
+  if (raw === null || raw === undefined) return null;
+  if (!isRecord(raw) || !isString(raw.id) || !raw.id) {
+    r.note('user', 'unreadable, signed out');
+    return null;
+  }
+  const user = {
+    ...raw,
+    id: raw.id,
+    name: r.string(raw, 'name', 'user', 'Hunter'),
+    email: r.string(raw, 'email', 'user', ''),
+    userClass: r.oneOf(raw, 'userClass', 'user', ['warrior', 'scholar', 'creator'] as const, 'warrior'),
+    level: Math.max(1, r.number(raw, 'level', 'user', 1)),
+    xp: Math.max(0, r.number(raw, 'xp', 'user', 0)),
+    xpToNextLevel: Math.max(1, r.number(raw, 'xpToNextLevel', 'user', 100)),
+    totalXP: Math.max(0, r.number(raw, 'totalXP', 'user', 0)),
+    joinedDate: r.date(raw, 'joinedDate', 'user', now),
+  } as User;
+  if (raw.focusTotals !== undefined) {
+    const totals = raw.focusTotals;
+    if (isRecord(totals) && isInteger(totals.sessions, 0) && isNumber(totals.minutes) && totals.minutes >= 0) {
+      user.focusTotals = { sessions: totals.sessions, minutes: totals.minutes };
+    } else {
+      r.note('user.focusTotals', 'unreadable, recounted from history');
+      delete user.focusTotals;
+    }
+  }
+  if (raw.focusProfiles !== undefined) {
+    if (Array.isArray(raw.focusProfiles)) {
+      user.focusProfiles = r.list(raw.focusProfiles, 'user.focusProfiles', (item, path) =>
+        repairFocusProfile(r, item, path)
+      );
+    } else {
+      r.note('user.focusProfiles', 'not a list, reset to the built-in profiles');
+      delete user.focusProfiles;
+    }
+  }
+  return user;
+}
+
+/** Fills in unreadable lengths with the Pomodoro defaults, then clamps them. */
+function repairFocusProfile(r: Repairer, raw: unknown, path: string): FocusProfile | null {
+  if (!isRecord(raw) || !isString(raw.id) || !raw.id) return null;
+  const profile = {
+    ...raw,
+    id: raw.id,
+    name: r.string(raw, 'name', path, 'Untitled Profile'),
+    focusMinutes: r.number(raw, 'focusMinutes', path, 25),
+    shortBreakMinutes: r.number(raw, 'shortBreakMinutes', path, 5),
+    longBreakMinutes: r.number(raw, 'longBreakMinutes', path, 15),
+    longBreakEvery: r.number(raw, 'longBreakEvery', path, 4),
+    autoStartBreaks: raw.autoStartBreaks === true,
+    autoStartFocus: raw.autoStartFocus === true,
+  } as FocusProfile;
+  if (raw.soundscape !== undefined) {
+    profile.soundscape = r.oneOf(
+      raw,
+      'soundscape',
+      path,
+      ['none', 'white', 'pink', 'brown', 'rain', 'binaural'] as const,
+      'none'
+    );
+  }
+  if (raw.volume !== undefined && !isNumber(raw.volume)) {
+    r.note(`${path}.volume`, 'not a number, removed');
+    delete profile.volume;
+  }
+  return normalizeFocusProfile(profile);
+}
+
+function repairSubtask(r: Repairer, raw: unknown, path: string): Subtask | null {
+  if (!isRecord(raw)) return null;
+  return {
+    // Subtasks are only unique within their quest, so the position is part of the seed.
+    id: repairId(r, raw, path, 'subtask', [raw.title, path.match(/\[(\d+)\]$/)?.[1]]),
+    title: r.string(raw, 'title', path, 'Untitled subtask'),
+    completed: raw.completed === true,
+  };
+}
+
+/**
+ * Recurrence of a quest, or `undefined` when there is none or it cannot be
+ * read; the quest then stays a one-off.
+ */
+function repairRecurrence(r: Repairer, raw: unknown, path: string): QuestRecurrence | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const unreadable = (problem: string) => {
+    r.note(path, `${problem}, removed`);
+    return undefined;
+  };
+  if (!isRecord(raw)) return unreadable('not a repeat rule');
+
+  switch (raw.kind) {
+    case 'daily':
+      return { kind: 'daily' };
+    case 'weekly':
+      if (!Array.isArray(raw.weekdays)) return unreadable('no weekdays');
+      return {
+        kind: 'weekly',
+        weekdays: r.list(raw.weekdays, `${path}.weekdays`, (day) => (isInteger(day, 0, 6) ? day : null)),
+      };
+    case 'monthly':
+      if (!isInteger(raw.dayOfMonth, 1, 31)) return unreadable('invalid day of the month');
+      return { kind: 'monthly', dayOfMonth: raw.dayOfMonth };
+    case 'interval':
+      if (!isInteger(raw.everyDays, 1)) return unreadable('invalid interval');
+      if (!isDayKey(raw.anchor)) return unreadable('invalid start day');
+      return { kind: 'interval', everyDays: raw.everyDays, anchor: raw.anchor };
+    default:
+      return unreadable(`unknown kind ${JSON.stringify(raw.kind)}`);
+  }
+}
+
+function repairOccurrence(r: Repairer, raw: unknown, path: string): QuestOccurrence | null {
+  if (!isRecord(raw) || !isDayKey(raw.dueDate)) return null;
+  const occurrence: QuestOccurrence = {
+    dueDate: raw.dueDate,
+    xpEarned: Math.max(0, r.number(raw, 'xpEarned', path, 0)),
+  };
+  setOptional(occurrence, 'completedAt', r.optionalDate(raw, 'completedAt', path));
+  return occurrence;
+}
+
+function repairQuest(r: Repairer, raw: unknown, path: string, now: string): Quest | null {
+  if (!isRecord(raw)) return null;
+  const difficulty = r.oneOf(raw, 'difficulty', path, ['easy', 'normal', 'hard'] as const, 'normal');
+  const quest = {
+    ...raw,
+    id: repairId(r, raw, path, 'quest', [raw.createdAt, raw.title]),
+    title: r.string(raw, 'title', path, 'Untitled quest'),
+    difficulty,
+    status: r.oneOf(raw, 'status', path, ['pending', 'in_progress', 'completed'] as const, 'pending'),
+    xpReward: r.number(raw, 'xpReward', path, getXPForDifficulty(difficulty)),
+    tags: repairStrings(r, raw.tags, `${path}.tags`),
+    subtasks: r.list(raw.subtasks, `${path}.subtasks`, (item, itemPath) => repairSubtask(r, item, itemPath)),
+    createdAt: r.date(raw, 'createdAt', path, now),
+  } as Quest;
+  setOptional(quest, 'dueDate', r.optionalDate(raw, 'dueDate', path));
+  setOptional(quest, 'completedAt', r.optionalDate(raw, 'completedAt', path));
+  setOptional(quest, 'recurrence', repairRecurrence(r, raw.recurrence, `${path}.recurrence`));
+  if (raw.occurrences !== undefined) {
+    if (Array.isArray(raw.occurrences)) {
+      quest.occurrences = r.list(raw.occurrences, `${path}.occurrences`, (item, itemPath) =>
+        repairOccurrence(r, item, itemPath)
+      );
+    } else {
+      r.note(`${path}.occurrences`, 'not a list, removed');
+      delete quest.occurrences;
+    }
+  }
+  return quest;
+}
+
+function repairHabit(r: Repairer, raw: unknown, path: string, now: string): Habit | null {
+  if (!isRecord(raw)) return null;
+  const habit = {
+    ...raw,
+    id: repairId(r, raw, path, 'habit', [raw.createdAt, raw.title]),
+    title: r.string(raw, 'title', path, 'Untitled habit'),
+    frequency: r.oneOf(raw, 'frequency', path, ['daily', 'weekly', 'custom'] as const, 'daily'),
+    currentStreak: Math.max(0, r.number(raw, 'currentStreak', path, 0)),
+    longestStreak: Math.max(0, r.number(raw, 'longestStreak', path, 0)),
+    xpPerCompletion: r.number(raw, 'xpPerCompletion', path, 10),
+    completedDates: r.list(raw.completedDates, `${path}.completedDates`, (item) => (isDate(item) ? item : null)),
+    createdAt: r.date(raw, 'createdAt', path, now),
+  } as Habit;
+  if (raw.customDays !== undefined) {
+    const days = r.list(raw.customDays, `${path}.customDays`, (item) =>
+      isInteger(item, 0, 6) ? item : null
+    );
+    setOptional(habit, 'customDays', days);
+  }
+  if (raw.timesPerWeek !== undefined && !isInteger(raw.timesPerWeek, 1, 7)) {
+    // Same range the habit form allows; unset means once a week.
+    if (isNumber(raw.timesPerWeek)) {
+      habit.timesPerWeek = Math.min(7, Math.max(1, Math.round(raw.timesPerWeek)));
+      r.note(`${path}.timesPerWeek`, `out of range, set to ${habit.timesPerWeek}`);
+    } else {
+      r.note(`${path}.timesPerWeek`, 'not a number, removed');
+      delete habit.timesPerWeek;
+    }
+  }
+  if (raw.completionXP !== undefined) {
+    // Unreadable entries fall back to `xpPerCompletion` when refunded.
+    if (isRecord(raw.completionXP)) {
+      const completionXP: Record<string, number> = {};
+      for (const [completedAt, xp] of Object.entries(raw.completionXP)) {
+        if (isNumber(xp) && xp >= 0) completionXP[completedAt] = xp;
+        else r.note(`${path}.completionXP.${completedAt}`, 'not a number, removed');
+      }
+      habit.completionXP = completionXP;
+    } else {
+      r.note(`${path}.completionXP`, 'not a map, removed');
+      delete habit.completionXP;
+    }
+  }
+  return habit;
+}
+
+function repairFocusSession(r: Repairer, raw: unknown, path: string): FocusSession | null {
+  // Without a start time a session cannot be placed in history or stats.
+  if (!isRecord(raw) || !isDate(raw.startTime)) return null;
+  const session = {
+    ...raw,
+    id: repairId(r, raw, path, 'session', [raw.startTime, raw.duration, raw.questId]),
+    duration: Math.max(0, r.number(raw, 'duration', path, 0)),
+    startTime: raw.startTime,
+    xpEarned: Math.max(0, r.number(raw, 'xpEarned', path, 0)),
+    // Sessions saved before abandoning was recorded all ran to the end.
+    completed: raw.completed !== false,
+  } as FocusSession;
+  setOptional(session, 'endTime', r.optionalDate(raw, 'endTime', path));
+  return session;
+}
+
+function repairBadge(r: Repairer, raw: unknown, path: string): Badge | null {
+  // Badges are re-added from the catalog (`withBadgeCatalog`), so broken
+  // entries can simply be dropped.
+  if (!isRecord(raw) || !isString(raw.id) || !isString(raw.name)) return null;
+  const badge = { ...raw, isLocked: raw.isLocked !== false } as Badge;
+  setOptional(badge, 'unlockedAt', r.optionalDate(raw, 'unlockedAt', path));
+  return badge;
+}
+
+/** Validates migrated state, repairing in place where possible. */
+function repairState(r: Repairer, raw: RawState, now: string): AppState {
+  const state = {
+    ...raw,
+    user: repairUser(r, raw.user, now),
+    quests: r.list(raw.quests, 'quests', (item, path) => repairQuest(r, item, path, now)),
+    habits: r.list(raw.habits, 'habits', (item, path) => repairHabit(r, item, path, now)),
+    focusSessions: r.list(raw.focusSessions, 'focusSessions', (item, path) => repairFocusSession(r, item, path)),
+    badges: r.list(raw.badges, 'badges', (item, path) => repairBadge(r, item, path)),
+    currentPage: isString(raw.currentPage) ? raw.currentPage : 'dashboard',
+    isOnboarded: raw.isOnboarded === true,
+    schemaVersion: SCHEMA_VERSION,
+  } as AppState;
+
+  if (raw.moodByDate !== undefined) {
+    if (isRecord(raw.moodByDate)) {
+      const moods: Record<string, string> = {};
+      for (const [date, mood] of Object.entries(raw.moodByDate)) {
+        if (isString(mood)) moods[date] = mood;
+        else r.note(`moodByDate.${date}`, 'unreadable, dropped');
+      }
+      state.moodByDate = moods;
+    } else {
+      r.note('moodByDate', 'not a map, reset to empty');
+      state.moodByDate = {};
+    }
+  }
+
+  // A running timer that cannot be read is abandoned rather than repaired.
+  const timer = raw.activeFocus;
+  if (timer !== undefined && timer !== null) {
+    const readable =
+      isRecord(timer) &&
+      ['focus', 'break', 'longBreak'].includes(timer.phase as string) &&
+      isNumber(timer.duration) &&
+      isDate(timer.startedAt) &&
+      Array.isArray(timer.pauses);
+    if (!readable) {
+      r.note('activeFocus', 'unreadable timer, stopped');
+      state.activeFocus = null;
+    }
+  }
+
+  if (raw.tombstones !== undefined && !Array.isArray(raw.tombstones)) {
+    r.note('tombstones', 'not a list, removed');
+    delete state.tombstones;
+  }
+  return state;
+}
+
+/**
+ * Brings loaded state (from localStorage, Firestore or another tab) up to
+ * the current schema. Returns `null` when the data is not an object at all.
+ */
+export function upgradeState(raw: unknown, now: Date = new Date()): UpgradedState | null {
+  if (!isRecord(raw)) return null;
+  const r = createRepairer();
+  const fromVersion = isNumber(raw.schemaVersion) ? raw.schemaVersion : 0;
+  if (fromVersion > SCHEMA_VERSION) {
+    r.note('schemaVersion', `saved by a newer version of the app (v${fromVersion}); unknown fields are kept`);
+  }
+
+  let migrated: RawState = raw;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+
+  const state = repairState(r, migrated, now.toISOString());
+  return { state, report: { fromVersion, repairs: r.repairs } };
+}
+
+/** Logs what `upgradeState` repaired, if anything. */
+export function logLoadReport(report: LoadReport, source: string): void {
+  if (report.repairs.length === 0) return;
+  console.warn(
+    `Repaired ${report.repairs.length} problem(s) in state loaded from ${source}:`,
+    report.repairs.map((repair) => `${repair.path}: ${repair.problem}`)
+  );
+}
@@ -0,0 +1,218 @@
+import { Soundscape } from '../types';
+
+/**
+ * Ambient focus sounds, synthesized with the Web Audio API.
+ *
+ * Nothing is downloaded: noise colours and rain are rendered into short
+ * looping buffers, the binaural tone is two detuned oscillators, and the
+ * chimes are enveloped sine notes. Browsers only allow audio after a user
+ * gesture, so `unlock()` should be called from a click (e.g. Start).
+ */
+
+export const SOUNDSCAPES: { value: Soundscape; label: string }[] = [
+  { value: 'none', label: 'Silence' },
+  { value: 'white', label: 'White noise' },
+  { value: 'pink', label: 'Pink noise' },
+  { value: 'brown', label: 'Brown noise' },
+  { value: 'rain', label: 'Rain' },
+  { value: 'binaural', label: 'Binaural (10 Hz alpha)' },
+];
+
+export const DEFAULT_SOUND_VOLUME = 40;
+
+const LOOP_SECONDS = 4;
+const BINAURAL_BASE_HZ = 200;
+const BINAURAL_BEAT_HZ = 10;
+
+type NoiseColor = 'white' | 'pink' | 'brown';
+
+function renderNoise(ctx: BaseAudioContext, color: NoiseColor): AudioBuffer {
+  const buffer = ctx.createBuffer(2, ctx.sampleRate * LOOP_SECONDS, ctx.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    // Pink: Paul Kellet's filter. Brown: leaky integrated white noise.
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+    let last = 0;
+    for (let i = 0; i < data.length; i++) {
+      const white = Math.random() * 2 - 1;
+      if (color === 'white') {
+        data[i] = white * 0.5;
+      } else if (color === 'pink') {
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.969 * b2 + white * 0.153852;
+        b3 = 0.8665 * b3 + white * 0.3104856;
+        b4 = 0.55 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.016898;
+        data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+        b6 = white * 0.115926;
+      } else {
+        last = (last + 0.02 * white) / 1.02;
+        data[i] = last * 3.5;
+      }
+    }
+  }
+  return buffer;
+}
+
+/** Soft pink-noise bed with randomly placed, quickly decaying droplets. */
+function renderRain(ctx: BaseAudioContext): AudioBuffer {
+  const buffer = renderNoise(ctx, 'pink');
+  const dropLength = Math.floor(ctx.sampleRate * 0.03);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) data[i] *= 0.6;
+
+    const drops = LOOP_SECONDS * 60;
+    for (let d = 0; d < drops; d++) {
+      const start = Math.floor(Math.random() * (data.length - dropLength));
+      const gain = 0.1 + Math.random() * 0.3;
+      for (let i = 0; i < dropLength; i++) {
+        const envelope = Math.exp((-i / dropLength) * 6);
+        data[start + i] += (Math.random() * 2 - 1) * gain * envelope;
+      }
+    }
+  }
+  return buffer;
+}
+
+export interface SoundscapePlayer {
+  /** Creates or resumes the audio context; call from a user gesture. */
+  unlock: () => void;
+  /** Starts `sound` (fading in), or just adjusts the volume if it already plays. */
+  play: (sound: Soundscape, volume: number) => void;
+  setVolume: (volume: number) => void;
+  /** Fades the current sound out over `seconds`, then stops it. */
+  fadeOut: (seconds: number) => void;
+  chime: (kind: 'start' | 'end', volume: number) => void;
+  dispose: () => void;
+}
+
+function toGain(volume: number): number {
+  // Perceived loudness is roughly logarithmic; square keeps low settings usable.
+  const v = Math.min(100, Math.max(0, volume)) / 100;
+  return v * v;
+}
+
+export function createSoundscapePlayer(): SoundscapePlayer {
+  let ctx: AudioContext | null = null;
+  let current: { sound: Soundscape; gain: GainNode; sources: AudioScheduledSourceNode[] } | null = null;
+  const buffers = new Map<Soundscape, AudioBuffer>();
+
+  const getContext = (): AudioContext | null => {
+    if (ctx) return ctx;
+    const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctor) return null;
+    ctx = new Ctor();
+    return ctx;
+  };
+
+  const stopCurrent = (fadeSeconds: number) => {
+    if (!ctx || !current) return;
+    const { gain, sources } = current;
+    const t = ctx.currentTime;
+    gain.gain.cancelScheduledValues(t);
+    gain.gain.setValueAtTime(gain.gain.value, t);
+    gain.gain.linearRampToValueAtTime(0, t + fadeSeconds);
+    for (const source of sources) source.stop(t + fadeSeconds + 0.05);
+    current = null;
+  };
+
+  const getBuffer = (audio: AudioContext, sound: Soundscape): AudioBuffer => {
+    let buffer = buffers.get(sound);
+    if (!buffer) {
+      buffer = sound === 'rain' ? renderRain(audio) : renderNoise(audio, sound as NoiseColor);
+      buffers.set(sound, buffer);
+    }
+    return buffer;
+  };
+
+  const startSources = (audio: AudioContext, sound: Soundscape, output: GainNode): AudioScheduledSourceNode[] => {
+    if (sound === 'binaural') {
+      return [
+        { frequency: BINAURAL_BASE_HZ, pan: -1 },
+        { frequency: BINAURAL_BASE_HZ + BINAURAL_BEAT_HZ, pan: 1 },
+      ].map(({ frequency, pan }) => {
+        const osc = audio.createOscillator();
+        osc.frequency.value = frequency;
+        const panner = audio.createStereoPanner();
+        panner.pan.value = pan;
+        osc.connect(panner).connect(output);
+        osc.start();
+        return osc;
+      });
+    }
+
+    const source = audio.createBufferSource();
+    source.buffer = getBuffer(audio, sound);
+    source.loop = true;
+    source.connect(output);
+    source.start();
+    return [source];
+  };
+
+  const setVolume = (volume: number) => {
+    if (!ctx || !current) return;
+    current.gain.gain.setTargetAtTime(toGain(volume), ctx.currentTime, 0.1);
+  };
+
+  return {
+    unlock() {
+      const audio = getContext();
+      if (audio?.state === 'suspended') void audio.resume();
+    },
+
+    play(sound, volume) {
+      if (sound === 'none') {
+        stopCurrent(0.5);
+        return;
+      }
+      const audio = getContext();
+      if (!audio) return;
+      if (current?.sound === sound) {
+        setVolume(volume);
+        return;
+      }
+      stopCurrent(0.5);
+
+      const gain = audio.createGain();
+      gain.gain.setValueAtTime(0, audio.currentTime);
+      gain.gain.linearRampToValueAtTime(toGain(volume), audio.currentTime + 2);
+      gain.connect(audio.destination);
+      current = { sound, gain, sources: startSources(audio, sound, gain) };
+    },
+
+    setVolume,
+
+    fadeOut(seconds) {
+      stopCurrent(seconds);
+    },
+
+    chime(kind, volume) {
+      const audio = getContext();
+      if (!audio || audio.state !== 'running') return;
+      // Rising fifth to start, falling fifth to finish.
+      const notes = kind === 'start' ? [523.25, 783.99] : [783.99, 523.25];
+      notes.forEach((frequency, i) => {
+        const t = audio.currentTime + i * 0.18;
+        const osc = audio.createOscillator();
+        osc.type = 'sine';
+        osc.frequency.value = frequency;
+        const env = audio.createGain();
+        env.gain.setValueAtTime(0, t);
+        env.gain.linearRampToValueAtTime(toGain(volume) * 0.6, t + 0.02);
+        env.gain.exponentialRampToValueAtTime(0.0001, t + 1.2);
+        osc.connect(env).connect(audio.destination);
+        osc.start(t);
+        osc.stop(t + 1.25);
+      });
+    },
+
+    dispose() {
+      stopCurrent(0);
+      void ctx?.close();
+      ctx = null;
+      buffers.clear();
+    },
+  };
+}
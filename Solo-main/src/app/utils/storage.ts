@@ -1,38 +1,99 @@
 import { AppState } from '../types';
 // Firestore integration
-import { db } from '../firebase';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '../firebase';
+import {
+  collection,
+  deleteField,
+  doc,
+  DocumentData,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  startAfter,
+  writeBatch,
+  WriteBatch,
+} from 'firebase/firestore';
+import {
+  decodeState,
+  encodeState,
+  isSubcollection,
+  RemoteDocument,
+  Subcollection,
+  SUBCOLLECTIONS,
+  SyncChange,
+  SyncQueueStore,
+  toPersistedState,
+} from './sync';
+import { logLoadReport, SCHEMA_VERSION, upgradeState, UpgradedState } from './schema';
+import { createMemoryBackend, HistoryWindow, StorageBackend, StorageBackendKind } from './storageBackend';
+import { createIndexedDbBackend, isIndexedDbAvailable } from './indexedDbBackend';
+import { createId } from './id';
 
 // Key used for localStorage fallback. Namespaced to avoid collisions with other apps.
 const STORAGE_KEY = 'levelday_app_state';
 
+// Id of this device's guest account, kept so guests find their data again.
+const GUEST_ID_KEY = 'levelday_guest_id';
+
+// Prefix of the per-user keys holding changes not yet written to the backend.
+const SYNC_QUEUE_KEY_PREFIX = 'levelday_sync_queue:';
+
 /**
- * Persist app state to localStorage. This is kept for offline fallback or
- * environments where Firestore is not available. For the primary
- * persistence layer, use {@link saveToFirebase} instead.
+ * Persist app state to localStorage. This is kept for offline fallback and
+ * fast startup; durable storage goes through a {@link StorageBackend}
+ * (see `selectStorageBackend`), driven by the sync engine.
  */
 export const saveToStorage = (state: AppState): void => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...state, schemaVersion: SCHEMA_VERSION }));
   } catch (error) {
     console.error('Failed to save to localStorage:', error);
   }
 };
 
 /**
- * Load app state from localStorage. Returns `null` if no state is stored
- * or parsing fails. Use this as a fallback when Firebase is unavailable.
+ * Load app state from localStorage, migrated and repaired (see
+ * `utils/schema.ts`). Returns `null` if no state is stored or parsing
+ * fails. Use this as a fallback when Firebase is unavailable.
  */
-export const loadFromStorage = (): AppState | null => {
+export const loadFromStorage = (): UpgradedState | null => {
   try {
     const data = localStorage.getItem(STORAGE_KEY);
-    return data ? (JSON.parse(data) as AppState) : null;
+    const loaded = data ? upgradeState(JSON.parse(data)) : null;
+    if (loaded) logLoadReport(loaded.report, 'localStorage');
+    return loaded;
   } catch (error) {
     console.error('Failed to load from localStorage:', error);
     return null;
   }
 };
 
+/**
+ * Call `onState` whenever another tab of this app saves its state. The
+ * browser only fires `storage` events in the tabs that did not write, so a
+ * tab never hears its own saves. Returns an unsubscribe function.
+ */
+export const subscribeToStorage = (onState: (state: AppState) => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      const loaded = upgradeState(JSON.parse(event.newValue));
+      if (!loaded) return;
+      logLoadReport(loaded.report, 'another tab');
+      onState(loaded.state);
+    } catch (error) {
+      console.error('Failed to read state from another tab:', error);
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
+
 /**
  * Remove persisted state from localStorage. Useful when a user logs out or
  * when resetting the application.
@@ -41,34 +102,167 @@ export const clearStorage = (): void => {
   localStorage.removeItem(STORAGE_KEY);
 };
 
+/**
+ * Persist a user's outbound sync queue in localStorage, so changes made
+ * offline survive a reload. Deletes are stored without a `value`, which
+ * reads back as `undefined` just like the original.
+ */
+export const createSyncQueueStore = (userId: string): SyncQueueStore => {
+  const key = `${SYNC_QUEUE_KEY_PREFIX}${userId}`;
+  return {
+    load: () => {
+      try {
+        const data = localStorage.getItem(key);
+        return data ? (JSON.parse(data) as SyncChange[]) : [];
+      } catch (error) {
+        console.error('Failed to load the sync queue:', error);
+        return [];
+      }
+    },
+    save: (queue) => {
+      try {
+        if (queue.length === 0) localStorage.removeItem(key);
+        else localStorage.setItem(key, JSON.stringify(queue));
+      } catch (error) {
+        console.error('Failed to save the sync queue:', error);
+      }
+    },
+  };
+};
+
+/**
+ * The user id of this device's guest account, created on first use. Guest
+ * data lives in the local backend under this id.
+ */
+export const getGuestUserId = (): string => {
+  const existing = localStorage.getItem(GUEST_ID_KEY);
+  if (existing) return existing;
+  const id = `guest-${createId('guest')}`;
+  localStorage.setItem(GUEST_ID_KEY, id);
+  return id;
+};
+
 /*
  * Firebase persistence functions
  *
- * These functions persist the application state to Firestore. Each user
- * document under the `appState` collection contains a snapshot of the
- * entire state tree. Because Firestore operations are asynchronous,
- * these helpers return promises. In case of failure, errors are
- * propagated so callers can handle them appropriately.
+ * Each user has a root document under the `appState` collection holding
+ * the profile and other small fields. Quests, habits, focus sessions,
+ * badges and mood entries are stored one document each in subcollections
+ * under it (`appState/{uid}/quests/{id}` and so on), so no single document
+ * grows towards Firestore's 1 MB limit. Together they form the id-keyed
+ * `RemoteDocument` used by the sync engine (see `utils/sync.ts`).
+ *
+ * Accounts saved by older versions keep everything in the root document;
+ * they are moved to subcollections the first time they are loaded.
  */
 
 const COLLECTION_NAME = 'appState';
 
+/** Set on root documents whose entities live in subcollections. */
+const LAYOUT_FIELD = 'layout';
+const SUBCOLLECTION_LAYOUT = 'subcollections';
+
+/** Focus sessions are loaded newest first, this many per page. */
+const HISTORY_PAGE_SIZE = 200;
+
+/** Firestore allows at most 500 writes per batch. */
+const MAX_BATCH_WRITES = 450;
+
+const rootRef = (userId: string) => doc(db, COLLECTION_NAME, userId);
+const subcollectionRef = (userId: string, name: Subcollection) => collection(db, COLLECTION_NAME, userId, name);
+const entityRef = (userId: string, name: Subcollection, id: string) => doc(db, COLLECTION_NAME, userId, name, id);
+
+const isLegacyRoot = (data: DocumentData) => data[LAYOUT_FIELD] !== SUBCOLLECTION_LAYOUT;
+
+function rootFields(data: DocumentData): RemoteDocument {
+  const fields: RemoteDocument = { ...data };
+  delete fields[LAYOUT_FIELD];
+  return fields;
+}
+
+/** Commits batch operations, split to stay under the batch size limit. */
+async function commitInBatches(operations: ((batch: WriteBatch) => void)[]): Promise<void> {
+  for (let start = 0; start < operations.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    for (const operation of operations.slice(start, start + MAX_BATCH_WRITES)) operation(batch);
+    await batch.commit();
+  }
+}
+
 /**
- * Load application state from Firestore for a given user. If no document
- * exists or an error occurs, `null` is returned and callers should
- * initialize a default state.
+ * Moves a legacy single-document account into subcollections and returns
+ * it in the current format. The root document is rewritten last, so an
+ * interrupted migration is simply run again on the next load.
+ */
+async function migrateLegacyDocument(userId: string, data: DocumentData): Promise<RemoteDocument> {
+  const migrated = encodeState(toPersistedState(decodeState(data)));
+  const root: RemoteDocument = {};
+  const operations: ((batch: WriteBatch) => void)[] = [];
+  for (const [field, value] of Object.entries(migrated)) {
+    if (!isSubcollection(field)) {
+      root[field] = value;
+      continue;
+    }
+    for (const [id, entity] of Object.entries(value as Record<string, DocumentData>)) {
+      operations.push((batch) => batch.set(entityRef(userId, field, id), entity));
+    }
+  }
+  operations.push((batch) => batch.set(rootRef(userId), { ...root, [LAYOUT_FIELD]: SUBCOLLECTION_LAYOUT }));
+  await commitInBatches(operations);
+  return migrated;
+}
+
+/**
+ * Loads one page of focus sessions, newest first, starting after `cursor`
+ * (from the newest session when unset).
+ */
+async function loadFocusSessionPage(
+  userId: string,
+  cursor?: QueryDocumentSnapshot
+): Promise<QueryDocumentSnapshot[]> {
+  const page = await getDocs(
+    query(
+      subcollectionRef(userId, 'focusSessions'),
+      orderBy('startTime', 'desc'),
+      ...(cursor ? [startAfter(cursor)] : []),
+      limit(HISTORY_PAGE_SIZE)
+    )
+  );
+  return page.docs;
+}
+
+function addDocs(target: Record<string, unknown>, docs: QueryDocumentSnapshot[]) {
+  for (const snapshot of docs) target[snapshot.id] = snapshot.data();
+}
+
+/**
+ * Load the user's stored state as one `RemoteDocument`, moving a legacy
+ * account to subcollections first. Only the newest page of focus sessions
+ * is included; older history is fetched through the subscription when the
+ * user asks for it. If nothing is stored or an error occurs, `null` is
+ * returned.
  *
  * @param userId Unique identifier for the authenticated user.
  */
-export const loadFromFirebase = async (userId: string): Promise<AppState | null> => {
+export const loadFirebaseDocument = async (userId: string): Promise<RemoteDocument | null> => {
   try {
-    const ref = doc(db, COLLECTION_NAME, userId);
-    const snapshot = await getDoc(ref);
-    if (!snapshot.exists()) {
-      return null;
+    const root = await getDoc(rootRef(userId));
+    if (root.exists() && isLegacyRoot(root.data())) return await migrateLegacyDocument(userId, root.data());
+
+    const data: RemoteDocument = root.exists() ? rootFields(root.data()) : {};
+    let empty = !root.exists();
+    for (const name of SUBCOLLECTIONS) {
+      const entities: Record<string, unknown> = {};
+      addDocs(
+        entities,
+        name === 'focusSessions'
+          ? await loadFocusSessionPage(userId)
+          : (await getDocs(subcollectionRef(userId, name))).docs
+      );
+      if (Object.keys(entities).length > 0) empty = false;
+      data[name] = entities;
     }
-    const data = snapshot.data() as AppState;
-    return data;
+    return empty ? null : data;
   } catch (error) {
     console.error('Failed to load from Firebase:', error);
     return null;
@@ -76,20 +270,215 @@ export const loadFromFirebase = async (userId: string): Promise<AppState | null>
 };
 
 /**
- * Save the entire application state to Firestore under the current
- * userId. If the document does not exist, it will be created. Because
- * Firestore overwrites documents on `setDoc`, only the provided state
- * will be stored. Consider implementing partial updates if the state
- * becomes large.
+ * Listen for changes to the user's stored state, including the initial
+ * contents. `onDocument` first runs once the root document and every
+ * subcollection have been read. Only the newest page of focus sessions is
+ * watched; each call to `history.loadOlder` adds the next page of older
+ * ones, until `history.complete` turns true. Returns an unsubscribe
+ * function.
  *
  * @param userId Unique identifier for the authenticated user.
- * @param state Current application state tree.
+ * @param onDocument Called with the assembled document on every change.
+ */
+export const subscribeToFirebaseDocument = (
+  userId: string,
+  onDocument: (data: RemoteDocument, history: HistoryWindow) => void
+): (() => void) => {
+  let root: RemoteDocument = {};
+  const entities = Object.fromEntries(SUBCOLLECTIONS.map((name) => [name, {}])) as Record<
+    Subcollection,
+    Record<string, unknown>
+  >;
+  const waiting = new Set<string>(['root', ...SUBCOLLECTIONS]);
+  // The oldest session loaded so far; older pages start after it.
+  let cursor: QueryDocumentSnapshot | undefined;
+  let historyLoaded = false;
+  let loadingOlder: Promise<void> | null = null;
+  let stopped = false;
+
+  const loadOlder = (): Promise<void> => {
+    loadingOlder =
+      loadingOlder ??
+      loadFocusSessionPage(userId, cursor)
+        .then((docs) => {
+          addDocs(entities.focusSessions, docs);
+          if (docs.length < HISTORY_PAGE_SIZE) historyLoaded = true;
+          else cursor = docs[docs.length - 1];
+          emit();
+        })
+        .finally(() => {
+          loadingOlder = null;
+        });
+    return loadingOlder;
+  };
+
+  const emit = () => {
+    if (stopped || waiting.size > 0) return;
+    const data: RemoteDocument = { ...root };
+    for (const name of SUBCOLLECTIONS) data[name] = { ...entities[name] };
+    onDocument(
+      data,
+      historyLoaded ? { complete: true } : { complete: false, loadedFrom: cursor?.get('startTime'), loadOlder }
+    );
+  };
+  const onError = (error: Error) => console.error('Firebase listener failed:', error);
+
+  // Offline, listeners first report whatever is cached, which may be
+  // nothing. That is not what the server holds, so it does not count as
+  // loaded; the sync engine keeps holding writes until the server answers.
+  const received = (source: string, snapshot: { metadata: { fromCache: boolean } }) =>
+    !snapshot.metadata.fromCache && waiting.delete(source);
+
+  // `removed` means deleted for whole collections, but for the limited
+  // focus session query it only means the session left the newest page.
+  const applyDocChanges = (name: Subcollection, snapshot: QuerySnapshot, removals: boolean) => {
+    for (const change of snapshot.docChanges()) {
+      if (change.type !== 'removed') entities[name][change.doc.id] = change.doc.data();
+      else if (removals) delete entities[name][change.doc.id];
+    }
+  };
+
+  const unsubscribers = [
+    onSnapshot(
+      rootRef(userId),
+      (snapshot) => {
+        if (snapshot.exists() && isLegacyRoot(snapshot.data())) {
+          // The rewritten root document triggers this listener again.
+          migrateLegacyDocument(userId, snapshot.data()).catch(onError);
+          return;
+        }
+        root = snapshot.exists() ? rootFields(snapshot.data()) : {};
+        received('root', snapshot);
+        emit();
+      },
+      onError
+    ),
+    ...SUBCOLLECTIONS.filter((name) => name !== 'focusSessions').map((name) =>
+      onSnapshot(
+        subcollectionRef(userId, name),
+        (snapshot) => {
+          applyDocChanges(name, snapshot, true);
+          received(name, snapshot);
+          emit();
+        },
+        onError
+      )
+    ),
+    onSnapshot(
+      query(subcollectionRef(userId, 'focusSessions'), orderBy('startTime', 'desc'), limit(HISTORY_PAGE_SIZE)),
+      (snapshot) => {
+        applyDocChanges('focusSessions', snapshot, false);
+        // The first page read from the server sets where older pages start.
+        if (received('focusSessions', snapshot)) {
+          if (snapshot.docs.length < HISTORY_PAGE_SIZE) historyLoaded = true;
+          else cursor = snapshot.docs[snapshot.docs.length - 1];
+        }
+        emit();
+      },
+      onError
+    ),
+  ];
+
+  return () => {
+    stopped = true;
+    for (const unsubscribe of unsubscribers) unsubscribe();
+  };
+};
+
+/**
+ * Apply field-level changes to the user's stored state in one or more
+ * batches. Entity changes become writes to their subcollection document;
+ * everything else is merged into the root document.
+ *
+ * @param userId Unique identifier for the authenticated user.
+ * @param changes Changed fields, as produced by `diffPersistedState`.
+ */
+export const writeFirebaseChanges = async (userId: string, changes: SyncChange[]): Promise<void> => {
+  const operations: ((batch: WriteBatch) => void)[] = [];
+  const root: RemoteDocument = {};
+
+  for (const { path, value } of changes) {
+    const [field, id] = path;
+    if (!isSubcollection(field)) {
+      root[field] = value === undefined ? deleteField() : value;
+    } else if (id !== undefined) {
+      const ref = entityRef(userId, field, id);
+      operations.push((batch) => (value === undefined ? batch.delete(ref) : batch.set(ref, value as DocumentData)));
+    } else {
+      // A whole collection only changes when nothing was stored before.
+      for (const [entityId, entity] of Object.entries((value ?? {}) as Record<string, DocumentData>)) {
+        operations.push((batch) => batch.set(entityRef(userId, field, entityId), entity));
+      }
+    }
+  }
+
+  const rootKeys = Object.keys(root);
+  if (rootKeys.length > 0) {
+    // `mergeFields` replaces the listed fields whole instead of deep-merging them.
+    operations.push((batch) =>
+      batch.set(rootRef(userId), { ...root, [LAYOUT_FIELD]: SUBCOLLECTION_LAYOUT }, {
+        mergeFields: [...rootKeys, LAYOUT_FIELD],
+      })
+    );
+  }
+  await commitInBatches(operations);
+};
+
+/** Firestore as a `StorageBackend`. */
+export const firestoreBackend: StorageBackend = {
+  kind: 'firestore',
+  requiresNetwork: true,
+  load: loadFirebaseDocument,
+  write: writeFirebaseChanges,
+  subscribe: subscribeToFirebaseDocument,
+};
+
+/*
+ * Backend selection
+ *
+ * The backend is picked once at startup. `VITE_STORAGE_BACKEND` may force
+ * one of `firestore`, `indexeddb` or `memory`; otherwise Firestore is used
+ * when Firebase is configured. Guest accounts never leave the device and
+ * always use the local backend.
+ */
+
+const BACKEND_KINDS: StorageBackendKind[] = ['firestore', 'indexeddb', 'memory'];
+
+let localBackend: StorageBackend | null = null;
+
+/** IndexedDB where the browser has it, memory otherwise. */
+export const selectLocalBackend = (): StorageBackend => {
+  localBackend = localBackend ?? (isIndexedDbAvailable() ? createIndexedDbBackend() : createMemoryBackend());
+  return localBackend;
+};
+
+export const selectStorageBackend = (): StorageBackend => {
+  const requested = import.meta.env.VITE_STORAGE_BACKEND as StorageBackendKind | undefined;
+  if (requested && !BACKEND_KINDS.includes(requested)) {
+    console.warn(`[Storage] Unknown VITE_STORAGE_BACKEND "${requested}", using the default.`);
+  }
+  const kind = requested && BACKEND_KINDS.includes(requested) ? requested : isFirebaseConfigured ? 'firestore' : 'indexeddb';
+  if (kind === 'firestore') return firestoreBackend;
+  if (kind === 'memory') return createMemoryBackend();
+  return selectLocalBackend();
+};
+
+/**
+ * Load a user's state from `backend`, migrated and repaired. If nothing is
+ * stored or an error occurs, `null` is returned and callers should
+ * initialize a default state.
+ *
+ * @param backend Where the user's state is stored.
+ * @param userId Unique identifier for the user.
  */
-export const saveToFirebase = async (userId: string, state: AppState): Promise<void> => {
+export const loadFromBackend = async (backend: StorageBackend, userId: string): Promise<UpgradedState | null> => {
+  let data: RemoteDocument | null = null;
   try {
-    const ref = doc(db, COLLECTION_NAME, userId);
-    await setDoc(ref, state);
+    data = await backend.load(userId);
   } catch (error) {
-    console.error('Failed to save to Firebase:', error);
+    console.error(`Failed to load from ${backend.kind}:`, error);
   }
+  const loaded = data ? upgradeState(decodeState(data)) : null;
+  if (loaded) logLoadReport(loaded.report, backend.kind);
+  return loaded;
 };
@@ -0,0 +1,78 @@
+import { applyChanges, RemoteDocument, SyncChange } from './sync';
+
+/**
+ * Where a user's state is stored durably.
+ *
+ * Backends deal in `RemoteDocument`s (the id-keyed encoding from
+ * `utils/sync.ts`) and the field changes the sync engine diffs out of
+ * them, so the same engine drives every backend:
+ *
+ * - `firestore`: Cloud Firestore, see `utils/storage.ts`
+ * - `indexeddb`: this browser only, for local-first and guest use
+ * - `memory`: nothing survives a reload; for tests and as a last resort
+ *
+ * This module and the memory backend do not touch Firebase, so game logic
+ * can be exercised against `createMemoryBackend()` on its own.
+ */
+
+export type StorageBackendKind = 'firestore' | 'indexeddb' | 'memory';
+
+/** How much of the focus session history a subscribed document holds. */
+export interface HistoryWindow {
+  /** Whether every stored focus session is included. */
+  complete: boolean;
+  /** While incomplete, the `startTime` of the oldest session included. */
+  loadedFrom?: string;
+  /**
+   * While incomplete, fetches the next page of older sessions; `onDocument`
+   * then runs again with them included.
+   */
+  loadOlder?: () => Promise<void>;
+}
+
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  /** Whether writes need the network, i.e. can be held up by being offline. */
+  requiresNetwork: boolean;
+  /** The user's stored document, or `null` when nothing is stored. */
+  load: (userId: string) => Promise<RemoteDocument | null>;
+  /** Applies changes produced by `diffPersistedState`. Rejects on failure. */
+  write: (userId: string, changes: SyncChange[]) => Promise<void>;
+  /**
+   * Calls `onDocument` with the stored document (empty when nothing is
+   * stored) and again whenever it changes elsewhere. Backends that page
+   * focus history start with the newest sessions only; `history` says how
+   * far back the document goes. Returns an unsubscribe function.
+   */
+  subscribe: (userId: string, onDocument: (doc: RemoteDocument, history: HistoryWindow) => void) => () => void;
+}
+
+/**
+ * Keeps documents in memory. Every write is reported to all subscribers of
+ * that user, the writer included, like Firestore's local snapshots.
+ */
+export function createMemoryBackend(seed: Record<string, RemoteDocument> = {}): StorageBackend {
+  const docs = new Map(Object.entries(seed));
+  const listeners = new Map<string, Set<(doc: RemoteDocument, history: HistoryWindow) => void>>();
+
+  return {
+    kind: 'memory',
+    requiresNetwork: false,
+    load: async (userId) => docs.get(userId) ?? null,
+    write: async (userId, changes) => {
+      const doc = applyChanges(docs.get(userId) ?? null, changes);
+      docs.set(userId, doc);
+      listeners.get(userId)?.forEach((listener) => listener(doc, { complete: true }));
+    },
+    subscribe: (userId, onDocument) => {
+      const userListeners = listeners.get(userId) ?? new Set();
+      listeners.set(userId, userListeners);
+      userListeners.add(onDocument);
+      // Deliver the initial document asynchronously, as the other backends do.
+      queueMicrotask(() => {
+        if (userListeners.has(onDocument)) onDocument(docs.get(userId) ?? {}, { complete: true });
+      });
+      return () => userListeners.delete(onDocument);
+    },
+  };
+}
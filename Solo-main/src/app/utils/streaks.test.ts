@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Habit } from '../types';
+import { makeHabit } from '../test/fixtures';
+import { calculateStreaks, getCompletedDayKeys, withRecalculatedStreaks } from './streaks';
+
+// A Monday.
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+const UTC = { timeZone: 'UTC' };
+
+const on = (...days: string[]) => days.map((day) => `${day}T12:00:00.000Z`);
+const streaks = (extra: Partial<Habit>) => calculateStreaks(makeHabit('h1', extra), NOW, UTC);
+
+describe('calculateStreaks', () => {
+  it('counts consecutive days for a daily habit, leaving today open', () => {
+    // Oct 11-14, nothing on Oct 15, then Oct 16-18.
+    const completedDates = on(
+      '2026-10-11',
+      '2026-10-12',
+      '2026-10-13',
+      '2026-10-14',
+      '2026-10-16',
+      '2026-10-17',
+      '2026-10-18'
+    );
+    expect(streaks({ completedDates })).toEqual({ currentStreak: 3, longestStreak: 4, unit: 'day' });
+  });
+
+  it('counts today once it is done', () => {
+    expect(streaks({ completedDates: on('2026-10-18', '2026-10-19') }).currentStreak).toBe(2);
+  });
+
+  it('breaks a daily streak on a missed day', () => {
+    expect(streaks({ completedDates: on('2026-10-16', '2026-10-17') }).currentStreak).toBe(0);
+  });
+
+  it('skips days a custom habit is not scheduled on', () => {
+    // Mon, Wed, Fri; the weekend is neutral.
+    const habit = { frequency: 'custom' as const, customDays: [1, 3, 5] };
+    expect(streaks({ ...habit, completedDates: on('2026-10-12', '2026-10-14', '2026-10-16') }).currentStreak).toBe(3);
+    expect(streaks({ ...habit, completedDates: on('2026-10-12', '2026-10-16') }).currentStreak).toBe(1);
+  });
+
+  it('counts weeks that reach the weekly target', () => {
+    const completedDates = on('2026-10-06', '2026-10-08', '2026-10-13', '2026-10-15');
+    expect(streaks({ frequency: 'weekly', timesPerWeek: 2, completedDates })).toEqual({
+      currentStreak: 2,
+      longestStreak: 2,
+      unit: 'week',
+    });
+  });
+
+  it('breaks a weekly streak on a week short of the target', () => {
+    const completedDates = on('2026-09-29', '2026-10-01', '2026-10-06', '2026-10-13', '2026-10-15');
+    expect(streaks({ frequency: 'weekly', timesPerWeek: 2, completedDates })).toMatchObject({
+      currentStreak: 1,
+      longestStreak: 1,
+    });
+  });
+
+  it('ignores completions after today', () => {
+    expect(streaks({ completedDates: on('2026-10-20') })).toEqual({ currentStreak: 0, longestStreak: 0, unit: 'day' });
+  });
+});
+
+describe('getCompletedDayKeys', () => {
+  it('moves check-ins before the day start onto the previous day', () => {
+    const habit = makeHabit('h1', { completedDates: ['2026-10-19T02:00:00.000Z', '2026-10-18T12:00:00.000Z'] });
+    expect(getCompletedDayKeys(habit, { ...UTC, dayStartHour: 4 })).toEqual(['2026-10-18']);
+    expect(getCompletedDayKeys(habit, UTC)).toEqual(['2026-10-18', '2026-10-19']);
+  });
+});
+
+describe('withRecalculatedStreaks', () => {
+  it('returns the same habit when nothing changed', () => {
+    const habit = makeHabit('h1', { completedDates: on('2026-10-18'), currentStreak: 1, longestStreak: 1 });
+    expect(withRecalculatedStreaks(habit, NOW, UTC)).toBe(habit);
+  });
+});
@@ -0,0 +1,135 @@
+import { addDays, addWeeks, startOfWeek } from 'date-fns';
+import { Habit } from '../types';
+import { DayBoundary, dateKeyToLocalDate, getDayKey, isoToDayKey, toLocalDateKey } from './date';
+
+/**
+ * Schedule-aware streak calculation.
+ *
+ * Streaks are always derived from `completedDates` rather than incremented,
+ * so they break when a scheduled day is missed and heal when history is
+ * edited. Days a habit is not scheduled on are neutral: they neither extend
+ * nor break the streak. "Today" is also neutral until it is over.
+ *
+ * Completion timestamps are bucketed into days with the user's
+ * `DayBoundary`, so a 1am check-in counts for the previous day when the
+ * user's day starts at 4am.
+ *
+ * - daily:  every day is scheduled, streak counted in days
+ * - custom: only `customDays` weekdays are scheduled, streak counted in days
+ * - weekly: a week succeeds when it has `timesPerWeek` completions, streak
+ *           counted in weeks (weeks start on Monday)
+ */
+
+export type StreakUnit = 'day' | 'week';
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  unit: StreakUnit;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export function getStreakUnit(habit: Habit): StreakUnit {
+  return habit.frequency === 'weekly' ? 'week' : 'day';
+}
+
+export function getTimesPerWeek(habit: Habit): number {
+  return Math.max(1, habit.timesPerWeek ?? 1);
+}
+
+/** Whether the habit expects a completion on the given local day. */
+export function isScheduledDay(habit: Habit, date: Date): boolean {
+  if (habit.frequency === 'custom') {
+    const days = habit.customDays ?? [];
+    // A custom habit with no weekdays picked behaves like a daily one.
+    return days.length === 0 || days.includes(date.getDay());
+  }
+  return true;
+}
+
+/** Distinct day keys on which the habit was completed, sorted ascending. */
+export function getCompletedDayKeys(habit: Habit, boundary?: DayBoundary | null): string[] {
+  const keys = new Set<string>();
+  for (const iso of habit.completedDates) {
+    const key = isoToDayKey(iso, boundary);
+    if (key) keys.add(key);
+  }
+  return Array.from(keys).sort();
+}
+
+function calculateDailyStreaks(habit: Habit, dayKeys: string[], todayKey: string): StreakSummary {
+  const done = new Set(dayKeys);
+
+  let run = 0;
+  let longest = 0;
+  for (let day = dateKeyToLocalDate(dayKeys[0]); toLocalDateKey(day) <= todayKey; day = addDays(day, 1)) {
+    const key = toLocalDateKey(day);
+    if (!isScheduledDay(habit, day)) continue;
+
+    if (done.has(key)) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (key !== todayKey) {
+      run = 0;
+    }
+  }
+
+  return { currentStreak: run, longestStreak: longest, unit: 'day' };
+}
+
+function calculateWeeklyStreaks(habit: Habit, dayKeys: string[], todayKey: string): StreakSummary {
+  const target = getTimesPerWeek(habit);
+  const countsByWeek = new Map<string, number>();
+  for (const key of dayKeys) {
+    const weekKey = toLocalDateKey(startOfWeek(dateKeyToLocalDate(key), WEEK_OPTIONS));
+    countsByWeek.set(weekKey, (countsByWeek.get(weekKey) || 0) + 1);
+  }
+
+  const currentWeekKey = toLocalDateKey(startOfWeek(dateKeyToLocalDate(todayKey), WEEK_OPTIONS));
+
+  let run = 0;
+  let longest = 0;
+  for (
+    let week = startOfWeek(dateKeyToLocalDate(dayKeys[0]), WEEK_OPTIONS);
+    toLocalDateKey(week) <= currentWeekKey;
+    week = addWeeks(week, 1)
+  ) {
+    const key = toLocalDateKey(week);
+    if ((countsByWeek.get(key) || 0) >= target) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (key !== currentWeekKey) {
+      run = 0;
+    }
+  }
+
+  return { currentStreak: run, longestStreak: longest, unit: 'week' };
+}
+
+/** Derives current and longest streak for a habit as of `now`. */
+export function calculateStreaks(
+  habit: Habit,
+  now: Date = new Date(),
+  boundary?: DayBoundary | null
+): StreakSummary {
+  const unit = getStreakUnit(habit);
+  const todayKey = getDayKey(now, boundary);
+  const dayKeys = getCompletedDayKeys(habit, boundary).filter((key) => key <= todayKey);
+  if (dayKeys.length === 0) return { currentStreak: 0, longestStreak: 0, unit };
+
+  return unit === 'week'
+    ? calculateWeeklyStreaks(habit, dayKeys, todayKey)
+    : calculateDailyStreaks(habit, dayKeys, todayKey);
+}
+
+/** Returns the habit with `currentStreak`/`longestStreak` recomputed. */
+export function withRecalculatedStreaks(
+  habit: Habit,
+  now: Date = new Date(),
+  boundary?: DayBoundary | null
+): Habit {
+  const { currentStreak, longestStreak } = calculateStreaks(habit, now, boundary);
+  if (habit.currentStreak === currentStreak && habit.longestStreak === longestStreak) return habit;
+  return { ...habit, currentStreak, longestStreak };
+}
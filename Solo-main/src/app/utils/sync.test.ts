@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, FocusSession } from '../types';
+import { makeSession, makeState } from '../test/fixtures';
+import { createSyncEngine, encodeState, SyncChange, toPersistedState } from './sync';
+
+const state = (focusSessions: FocusSession[]): AppState => makeState({ focusSessions });
+
+const writtenPaths = async (remote: AppState, local: AppState, historyFrom?: string) => {
+  const writes: SyncChange[][] = [];
+  const engine = createSyncEngine({
+    write: async (changes) => void writes.push(changes),
+    onStatus: () => {},
+    debounceMs: 60 * 1000,
+  });
+  engine.markRemote(encodeState(toPersistedState(remote)), historyFrom);
+  engine.schedule(local);
+  await engine.flush();
+  engine.dispose();
+  return writes.flat().map((change) => change.path.join('/'));
+};
+
+describe('createSyncEngine', () => {
+  const old = makeSession('old', '2026-09-01T08:00:00.000Z');
+  const recent = makeSession('recent', '2026-10-18T08:00:00.000Z');
+  const added = makeSession('added', '2026-10-19T08:00:00.000Z');
+
+  it('writes sessions the remote copy lacks', async () => {
+    expect(await writtenPaths(state([recent]), state([old, recent, added]))).toEqual([
+      'focusSessions/old',
+      'focusSessions/added',
+    ]);
+  });
+
+  it('leaves sessions older than the loaded history alone', async () => {
+    const paths = await writtenPaths(state([recent]), state([old, recent, added]), recent.startTime);
+    expect(paths).toEqual(['focusSessions/added']);
+  });
+});
@@ -0,0 +1,386 @@
+import { AppState } from '../types';
+import { SCHEMA_VERSION } from './schema';
+
+/**
+ * Remote sync.
+ *
+ * The persisted document stores each entity collection (and mood entries)
+ * as a map keyed by id, so a change to one quest is written as a single
+ * entity update (`quests/<id>`) instead of re-uploading the whole tree. The
+ * Firestore backend keeps these maps in subcollections. `createSyncEngine`
+ * debounces state changes, diffs them against the last synced snapshot and
+ * hands only the changed fields to a writer. It is backend-agnostic; the
+ * Firestore writer lives in `storage.ts`.
+ */
+
+/**
+ * AppState fields that describe this device's session (open page, running
+ * timer) and are never synced; each device keeps its own.
+ */
+const DEVICE_ONLY_FIELDS = ['currentPage', 'activeFocus', 'focusCycleCount'] as const;
+
+export type PersistedState = Omit<AppState, (typeof DEVICE_ONLY_FIELDS)[number]>;
+
+/** Array fields stored as id-keyed maps in the remote document. */
+export const ENTITY_COLLECTIONS = ['quests', 'habits', 'focusSessions', 'badges'] as const;
+type EntityCollection = (typeof ENTITY_COLLECTIONS)[number];
+
+/**
+ * Id-keyed maps in the remote document: the entity collections plus
+ * `moods`, which holds `moodByDate` and `moodMeta` keyed by date.
+ */
+export const SUBCOLLECTIONS = [...ENTITY_COLLECTIONS, 'moods'] as const;
+export type Subcollection = (typeof SUBCOLLECTIONS)[number];
+
+export type RemoteDocument = Record<string, unknown>;
+
+/** One field to write. `value: undefined` deletes the field. */
+export interface SyncChange {
+  path: string[];
+  value: unknown;
+}
+
+/**
+ * - `idle`: nothing to sync (signed out)
+ * - `pending`: changes queued, about to be written
+ * - `saving`: a write is in flight
+ * - `saved`: everything is written
+ * - `offline`: the device is offline; queued changes wait for it to reconnect
+ * - `failed`: the last write failed; it is retried at `nextRetryAt`
+ */
+export type SyncStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'offline' | 'failed';
+
+export interface SyncState {
+  status: SyncStatus;
+  /** Changes not yet acknowledged by the backend. */
+  pendingChanges?: number;
+  /** When the last write succeeded. */
+  lastSyncedAt?: string;
+  error?: string;
+  nextRetryAt?: string;
+}
+
+export function toPersistedState(state: AppState): PersistedState {
+  const persisted: Record<string, unknown> = { ...state };
+  for (const field of DEVICE_ONLY_FIELDS) delete persisted[field];
+  return persisted as PersistedState;
+}
+
+function isEntityCollection(field: string): field is EntityCollection {
+  return (ENTITY_COLLECTIONS as readonly string[]).includes(field);
+}
+
+export function isSubcollection(field: string): field is Subcollection {
+  return (SUBCOLLECTIONS as readonly string[]).includes(field);
+}
+
+const isMap = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Drops `undefined` values, which Firestore rejects, recursively. */
+function stripUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripUndefined);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      if (v !== undefined) out[key] = stripUndefined(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+export function encodeState(state: PersistedState): RemoteDocument {
+  const doc: RemoteDocument = {};
+  for (const [field, value] of Object.entries(state)) {
+    if (value === undefined || field === 'moodByDate' || field === 'moodMeta') continue;
+    if (isEntityCollection(field)) {
+      const byId: Record<string, unknown> = {};
+      for (const entity of value as { id: string }[]) byId[entity.id] = stripUndefined(entity);
+      doc[field] = byId;
+    } else {
+      doc[field] = stripUndefined(value);
+    }
+  }
+  const moods: Record<string, unknown> = {};
+  for (const [date, mood] of Object.entries(state.moodByDate ?? {})) {
+    moods[date] = stripUndefined({ mood, ...state.moodMeta?.[date] });
+  }
+  doc.moods = moods;
+  doc.schemaVersion = SCHEMA_VERSION;
+  return doc;
+}
+
+/** Sort key restoring a stable order for collections read back from maps. */
+const ORDER_KEYS: Record<EntityCollection, string | null> = {
+  quests: 'createdAt',
+  habits: 'createdAt',
+  focusSessions: 'startTime',
+  badges: null,
+};
+
+/**
+ * Reads a remote document back into state. Also accepts the old formats,
+ * where collections were plain arrays and moods were plain fields.
+ */
+export function decodeState(doc: RemoteDocument): AppState {
+  const state: Record<string, unknown> = { ...doc };
+  delete state.moods;
+  if (isMap(doc.moods)) {
+    const moodByDate: Record<string, unknown> = {};
+    const moodMeta: Record<string, unknown> = {};
+    for (const [date, entry] of Object.entries(doc.moods)) {
+      if (!isMap(entry)) continue;
+      moodByDate[date] = entry.mood;
+      if (entry.updatedAt) moodMeta[date] = { updatedAt: entry.updatedAt };
+    }
+    state.moodByDate = moodByDate;
+    state.moodMeta = moodMeta;
+  }
+  for (const field of ENTITY_COLLECTIONS) {
+    const value = doc[field];
+    if (Array.isArray(value) || !value || typeof value !== 'object') {
+      state[field] = Array.isArray(value) ? value : [];
+      continue;
+    }
+    const entities = Object.values(value as Record<string, Record<string, unknown>>);
+    const key = ORDER_KEYS[field];
+    if (key) entities.sort((a, b) => String(a[key] ?? '').localeCompare(String(b[key] ?? '')));
+    state[field] = entities;
+  }
+  return { currentPage: 'dashboard', ...state } as AppState;
+}
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** Returns `doc` with `changes` applied; `doc` itself is left untouched. */
+export function applyChanges(doc: RemoteDocument | null, changes: SyncChange[]): RemoteDocument {
+  const next: RemoteDocument = { ...doc };
+  for (const { path, value } of changes) {
+    const [field, id] = path;
+    if (id === undefined) {
+      if (value === undefined) delete next[field];
+      else next[field] = value;
+      continue;
+    }
+    const entities = { ...(next[field] as Record<string, unknown> | undefined) };
+    if (value === undefined) delete entities[id];
+    else entities[id] = value;
+    next[field] = entities;
+  }
+  return next;
+}
+
+/**
+ * Field updates turning `prev` into `next`. Collections are compared per
+ * entity; other fields as a whole. With no `prev` everything is new.
+ */
+export function diffPersistedState(prev: RemoteDocument | null, next: RemoteDocument): SyncChange[] {
+  const changes: SyncChange[] = [];
+  const fields = new Set([...Object.keys(prev ?? {}), ...Object.keys(next)]);
+
+  for (const field of fields) {
+    const before = prev?.[field];
+    const after = next[field];
+    // Collections are diffed per entity; a legacy array is replaced whole.
+    if (isSubcollection(field) && isMap(before) && isMap(after)) {
+      for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (!same(before[id], after[id])) changes.push({ path: [field, id], value: after[id] });
+      }
+    } else if (!same(before, after)) {
+      changes.push({ path: [field], value: after });
+    }
+  }
+  return changes;
+}
+
+export interface SyncEngine {
+  /** Records `state` as the latest local state and queues what changed. */
+  schedule: (state: AppState) => void;
+  /** Writes queued changes now, unless offline. */
+  flush: () => Promise<void>;
+  /**
+   * Records `doc` as what is stored remotely (e.g. a snapshot from another
+   * device). The queue is then rebuilt against it, so local edits the
+   * remote copy lacks are still written. Nothing is written before the
+   * first call, since a diff needs to know what is stored.
+   *
+   * When `doc` holds only the focus sessions starting at `historyFrom` or
+   * later, older sessions missing from it are left alone: they are most
+   * likely stored already, just not loaded.
+   */
+  markRemote: (doc: RemoteDocument, historyFrom?: string) => void;
+  dispose: () => void;
+}
+
+/** Keeps the outbound queue somewhere that survives a reload. */
+export interface SyncQueueStore {
+  load: () => SyncChange[];
+  save: (queue: SyncChange[]) => void;
+}
+
+interface SyncEngineOptions {
+  write: (changes: SyncChange[]) => Promise<void>;
+  onStatus: (state: SyncState) => void;
+  queueStore?: SyncQueueStore;
+  /** Whether the backend is reachable. While offline the queue waits for the next `flush`. */
+  isOnline?: () => boolean;
+  debounceMs?: number;
+  /** A write still unsettled after this long counts as failed; Firestore waits forever offline. */
+  writeTimeoutMs?: number;
+}
+
+/** Delay before retrying after `failures` failed writes in a row: 2s, 4s, 8s… up to a minute. */
+export const getRetryDelay = (failures: number): number => Math.min(60 * 1000, 2000 * 2 ** (failures - 1));
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('The server did not respond in time')), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timeout);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Drives writes to a backend. The outbound queue is the diff between what
+ * the backend is known to hold and the latest local state. It is persisted
+ * through `queueStore` so pending work survives reloads and shows in the
+ * indicator, and it is rebuilt from the latest state once the backend has
+ * been read, so stale entries never overwrite newer remote data. Failed
+ * writes are replayed with exponential backoff, or as soon as the device
+ * comes back online.
+ */
+export function createSyncEngine({
+  write,
+  onStatus,
+  queueStore,
+  isOnline = () => true,
+  debounceMs = 1500,
+  writeTimeoutMs = 20 * 1000,
+}: SyncEngineOptions): SyncEngine {
+  let synced: RemoteDocument | null = null;
+  let latest: RemoteDocument | null = null;
+  let remoteKnown = false;
+  let historyFrom: string | undefined;
+  let queue: SyncChange[] = queueStore?.load() ?? [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> | null = null;
+  // Failed writes in a row; while non-zero the backoff timer decides when to retry.
+  let failures = 0;
+  let disposed = false;
+  let current: SyncState = { status: 'idle' };
+
+  const report = (status: SyncStatus, extra: Partial<SyncState> = {}) => {
+    const next: SyncState = { status, lastSyncedAt: current.lastSyncedAt, pendingChanges: queue.length, ...extra };
+    if (JSON.stringify(next) === JSON.stringify(current)) return;
+    current = next;
+    if (!disposed) onStatus(next);
+  };
+
+  const isUnloadedHistory = ({ path: [field, id], value }: SyncChange) => {
+    if (!historyFrom || field !== 'focusSessions' || id === undefined || value === undefined) return false;
+    const loaded = synced?.focusSessions as Record<string, unknown> | undefined;
+    return !loaded?.[id] && String((value as { startTime?: string }).startTime ?? '') < historyFrom;
+  };
+
+  const refreshQueue = () => {
+    if (!remoteKnown || !latest) return;
+    queue = diffPersistedState(synced, latest).filter((change) => !isUnloadedHistory(change));
+    queueStore?.save(queue);
+  };
+
+  const restingStatus = (): SyncStatus => (!isOnline() ? 'offline' : queue.length > 0 ? 'pending' : 'saved');
+
+  const scheduleFlush = (delay: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void flush(), delay);
+  };
+
+  const flush = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    // One write at a time; changes made meanwhile go out right after,
+    // unless the write failed and backoff is in charge.
+    if (inFlight) {
+      await inFlight;
+      if (failures === 0) return flush();
+      return;
+    }
+    if (disposed || !remoteKnown || !latest) return;
+
+    refreshQueue();
+    if (!isOnline() || queue.length === 0) {
+      report(restingStatus(), queue.length === 0 && !current.lastSyncedAt ? { lastSyncedAt: new Date().toISOString() } : {});
+      return;
+    }
+
+    const sending = queue;
+    report('saving');
+    inFlight = withTimeout(write(sending), writeTimeoutMs)
+      .then(() => {
+        synced = applyChanges(synced, sending);
+        failures = 0;
+        refreshQueue();
+        report(restingStatus(), { lastSyncedAt: new Date().toISOString() });
+        if (queue.length > 0) scheduleFlush(0);
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        failures += 1;
+        // Offline, the `online` event replays the queue instead of the timer.
+        if (!isOnline()) {
+          report('offline', { error: message });
+          return;
+        }
+        const delay = getRetryDelay(failures);
+        report('failed', { error: message, nextRetryAt: new Date(Date.now() + delay).toISOString() });
+        scheduleFlush(delay);
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    await inFlight;
+  };
+
+  if (queue.length > 0) report(restingStatus());
+
+  return {
+    schedule(state) {
+      if (disposed) return;
+      latest = encodeState(toPersistedState(state));
+      refreshQueue();
+      if (failures > 0) {
+        // Only the count changes; backoff decides when to write.
+        report(current.status, { error: current.error, nextRetryAt: current.nextRetryAt });
+        return;
+      }
+      if (current.status !== 'saving') report(restingStatus());
+      scheduleFlush(debounceMs);
+    },
+    flush,
+    markRemote(doc, from) {
+      if (disposed) return;
+      synced = doc;
+      historyFrom = from;
+      remoteKnown = true;
+      refreshQueue();
+      if (current.status !== 'saving' && failures === 0) report(restingStatus());
+      if (queue.length > 0 && failures === 0) scheduleFlush(debounceMs);
+    },
+    dispose() {
+      disposed = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
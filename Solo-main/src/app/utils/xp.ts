@@ -1,4 +1,4 @@
-import { QuestDifficulty } from '../types';
+import { Habit, QuestDifficulty } from '../types';
 
 export const calculateXPForLevel = (level: number): number => {
   // XP needed increases exponentially
@@ -30,6 +30,10 @@ export const getXPForDifficulty = (difficulty: QuestDifficulty | string): number
   }
 };
 
+/** XP a habit granted for the completion recorded at `completedAt`. */
+export const getHabitCompletionXP = (habit: Habit, completedAt: string): number =>
+  habit.completionXP?.[completedAt] ?? habit.xpPerCompletion;
+
 
 export const getDifficultyColor = (difficulty: QuestDifficulty): string => {
   switch (difficulty) {
@@ -60,3 +64,28 @@ export const getRarityColor = (rarity: string): string => {
       return 'text-gray-400 border-gray-400/30';
   }
 };
+
+export interface LevelProgress {
+  level: number;
+  /** XP earned inside the current level. */
+  xp: number;
+  /** XP required to go from `level` to `level + 1`. */
+  xpToNextLevel: number;
+}
+
+/**
+ * Splits a lifetime XP total into the level/xp/xpToNextLevel triple stored on
+ * `User`. This is the single place where the level curve is walked.
+ */
+export const getLevelProgress = (totalXP: number): LevelProgress => {
+  const level = calculateLevel(totalXP);
+
+  let xpForPreviousLevels = 0;
+  for (let i = 1; i < level; i++) xpForPreviousLevels += calculateXPForLevel(i);
+
+  return {
+    level,
+    xp: totalXP - xpForPreviousLevels,
+    xpToNextLevel: calculateXPForLevel(level),
+  };
+};